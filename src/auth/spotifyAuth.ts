@@ -1,7 +1,8 @@
 import { PluginManifest, requestUrl } from 'obsidian';
-import { SpotifyApi } from '@spotify/web-api-ts-sdk';
+import { SdkOptions, SpotifyApi } from '@spotify/web-api-ts-sdk';
 import { ObsidianSpotifySettings } from '../settings';
 import ObsidianSpotify from '../main';
+import { SpotifyRequestLimiter } from '../sync/music-sources/spotify/SpotifyRequestLimiter';
 
 /**
  * Handles all Spotify authentication operations including OAuth flow, token refresh, and user management.
@@ -9,6 +10,7 @@ import ObsidianSpotify from '../main';
 export class SpotifyAuth {
     private plugin: ObsidianSpotify;
     private manifest: PluginManifest;
+    private requestLimiter?: SpotifyRequestLimiter;
 
     constructor(plugin: ObsidianSpotify, manifest: PluginManifest) {
         this.plugin = plugin;
@@ -45,7 +47,7 @@ export class SpotifyAuth {
             const data = await response.json;
 
             console.log(`[${manifest.name}] Spotify Token Refreshed`);
-            this.plugin.spotifyApi = SpotifyApi.withAccessToken(settings.spotify_client_id, data);
+            this.plugin.spotifyApi = SpotifyApi.withAccessToken(settings.spotify_client_id, data, this.getSdkOptions(settings));
             this.plugin.spotifyApi['authenticationStrategy'].refreshTokenAction = async () => { return; };
         } catch (error) {
             console.log(`[${manifest.name}] Waiting for internet to update token`);
@@ -169,7 +171,7 @@ export class SpotifyAuth {
      */
     initializeSpotifySDK(settings: ObsidianSpotifySettings): SpotifyApi | undefined {
         if (settings.spotify_access_token.access_token) {
-            const api = SpotifyApi.withAccessToken(settings.spotify_client_id, settings.spotify_access_token);
+            const api = SpotifyApi.withAccessToken(settings.spotify_client_id, settings.spotify_access_token, this.getSdkOptions(settings));
             api['authenticationStrategy'].refreshTokenAction = async () => { return; };
             return api;
         } else {
@@ -177,6 +179,18 @@ export class SpotifyAuth {
         }
     }
 
+    /**
+     * Builds the SDK options, sending all requests through the shared rate limiter.
+     * @param settings - Plugin settings
+     * @returns The SDK options
+     */
+    private getSdkOptions(settings: ObsidianSpotifySettings): SdkOptions {
+        if (!this.requestLimiter) {
+            this.requestLimiter = new SpotifyRequestLimiter(settings);
+        }
+        return { fetch: this.requestLimiter.fetch };
+    }
+
     /**
      * Checks if the user is currently authenticated.
      * @param settings - Plugin settings
@@ -1,10 +1,19 @@
-import { Platform, Notice, Plugin, PluginManifest, requestUrl } from 'obsidian';
+import { Platform, Notice, Plugin, PluginManifest, TFile, requestUrl } from 'obsidian';
 import { SpotifyApi } from '@spotify/web-api-ts-sdk';
 import { SyncEngine } from './sync/SyncEngine';
 import { ObsidianSpotifySettings, DEFAULT_SETTINGS, ObsidianSpotifySettingsTab } from './settings';
 import { SpotifyAuth } from './auth/spotifyAuth';
 import { TokenManager } from './auth/tokenManager';
 import { SpotifyLibrarySource } from './sync/music-sources/spotify/SpotifyLibrarySource';
+import { LocalLibrarySource } from './sync/music-sources/local/LocalLibrarySource';
+import { LibraryStatusChangesModal } from './modals/LibraryStatusChangesModal';
+import { SyncPlanModal } from './modals/SyncPlanModal';
+import { DuplicatesModal } from './modals/DuplicatesModal';
+import { isSyncPlanEmpty } from './sync/SyncPlan';
+import { SyncJournal } from './sync/SyncJournal';
+import { DuplicateMerger } from './sync/DuplicateMerger';
+import { CatalogOrganizer } from './sync/CatalogOrganizer';
+import { LibraryStatusChange } from './sync/types';
 
 /**
  * Main Obsidian Spotify plugin class.
@@ -27,6 +36,9 @@ export default class ObsidianSpotify extends Plugin {
 	private lastSyncTime: number = 0;
 	private readonly SYNC_DEBOUNCE_MS = 10000;
 
+	// Polling for new plays to log, restarted when its setting changes
+	private listeningLogPollInterval: number | undefined;
+
 	/**
 	 * Called when the plugin is loaded.
 	 */
@@ -51,6 +63,16 @@ export default class ObsidianSpotify extends Plugin {
 			this.setupAppFocusDetection();
 		}
 
+		this.restartListeningLogPolling();
+
+		// Check hourly whether a scheduled top items snapshot is due
+		this.registerInterval(window.setInterval(async () => {
+			await this.snapshotTopItemsIfDue();
+		}, 60 * 60 * 1000));
+		setTimeout(async () => {
+			await this.snapshotTopItemsIfDue();
+		}, 10000);
+
 		// Auto-sync on load if enabled
 		if (this.settings.auto_sync_on_load && this.spotifyApi) {
 			setTimeout(async () => {
@@ -136,6 +158,22 @@ export default class ObsidianSpotify extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: "spotify-preview-full-sync",
+			name: "Preview Full Sync",
+			callback: async () => {
+				await this.previewFullSync();
+			}
+		});
+
+		this.addCommand({
+			id: "spotify-undo-last-sync",
+			name: "Undo Last Sync",
+			callback: async () => {
+				await this.undoLastSync();
+			}
+		});
+
 		this.addCommand({
 			id: "spotify-recent-sync",
 			name: "Recent Sync",
@@ -143,6 +181,122 @@ export default class ObsidianSpotify extends Plugin {
 				await this.syncRecent();
 			}
 		});
+
+		this.addCommand({
+			id: "spotify-backfill-external-ids",
+			name: "Backfill ISRC and UPC IDs",
+			callback: async () => {
+				await this.backfillExternalIds();
+			}
+		});
+
+		this.addCommand({
+			id: "spotify-import-streaming-history",
+			name: "Import Streaming History",
+			callback: async () => {
+				await this.importStreamingHistory();
+			}
+		});
+
+		this.addCommand({
+			id: "spotify-sync-listening-log",
+			name: "Update Listening Log",
+			callback: async () => {
+				await this.syncListeningLog();
+			}
+		});
+
+		this.addCommand({
+			id: "spotify-push-library-status",
+			name: "Push Library Status Changes",
+			callback: async () => {
+				await this.pushLibraryStatusChanges();
+			}
+		});
+
+		this.addCommand({
+			id: "spotify-save-to-library",
+			name: "Save to Library",
+			checkCallback: (checking: boolean) => this.checkLibraryStatusCommand(checking, true)
+		});
+
+		this.addCommand({
+			id: "spotify-remove-from-library",
+			name: "Remove from Library",
+			checkCallback: (checking: boolean) => this.checkLibraryStatusCommand(checking, false)
+		});
+
+		this.addCommand({
+			id: "spotify-import-discography",
+			name: "Import Artist Discography",
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || !this.spotifyApi) {
+					return false;
+				}
+
+				if (!checking) {
+					this.importDiscography(activeFile);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: "spotify-top-items-snapshot",
+			name: "Snapshot Top Artists and Tracks",
+			callback: async () => {
+				await this.snapshotTopItems();
+			}
+		});
+
+		this.addCommand({
+			id: "catalog-find-duplicates",
+			name: "Find Duplicate Notes",
+			callback: async () => {
+				await this.findDuplicates();
+			}
+		});
+
+		this.addCommand({
+			id: "catalog-rename-to-match-templates",
+			name: "Rename Notes to Match File Name Templates",
+			callback: async () => {
+				await new CatalogOrganizer(this.app, this.settings).renameToMatchTemplates();
+			}
+		});
+
+		this.addCommand({
+			id: "catalog-move-to-match-folder-layout",
+			name: "Move Notes to Match Folder Layout",
+			callback: async () => {
+				await new CatalogOrganizer(this.app, this.settings).moveToMatchFolderLayout();
+			}
+		});
+
+		this.addCommand({
+			id: "catalog-migrate-frontmatter-fields",
+			name: "Migrate Frontmatter to Field Mapping",
+			callback: async () => {
+				await new CatalogOrganizer(this.app, this.settings).migrateFrontmatterToFieldMapping();
+			}
+		});
+
+		this.addCommand({
+			id: "catalog-download-cover-art",
+			name: "Download Cover Art for Existing Notes",
+			callback: async () => {
+				await new CatalogOrganizer(this.app, this.settings).downloadCoverArt();
+			}
+		});
+
+		this.addCommand({
+			id: "local-library-sync",
+			name: "Sync Local Audio Library",
+			callback: async () => {
+				await this.syncLocalLibrary();
+			}
+		});
 	}
 
 	/**
@@ -196,14 +350,70 @@ export default class ObsidianSpotify extends Plugin {
 
 		try {
 			const musicLibrarySource = new SpotifyLibrarySource(this.spotifyApi, this.settings);
-			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource, this.createSyncJournal());
+
+			await this.pushLibraryStatusEditsBeforeFullSync(syncManager);
 			await syncManager.fullSync();
+
+			// Persist the synced library statuses and sync checkpoints
+			await this.saveSettings();
 		} catch (error) {
 			console.error('Sync failed:', error);
 			new Notice('Sync failed. Check console for details.');
 		}
 	}
 
+	/**
+	 * Works out what a full sync would change, and applies only the changes approved in the review modal.
+	 */
+	async previewFullSync(): Promise<void> {
+		if (!this.spotifyApi) {
+			new Notice('Please login to Spotify first');
+			return;
+		}
+
+		try {
+			const musicLibrarySource = new SpotifyLibrarySource(this.spotifyApi, this.settings);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource, this.createSyncJournal());
+
+			await this.pushLibraryStatusEditsBeforeFullSync(syncManager);
+			const plan = await syncManager.planFullSync();
+			if (!plan) {
+				return;
+			}
+
+			if (isSyncPlanEmpty(plan)) {
+				new Notice('Full sync would not change anything');
+				return;
+			}
+
+			const approvedPlan = await new SyncPlanModal(this.app, plan).review();
+			if (approvedPlan && !isSyncPlanEmpty(approvedPlan)) {
+				await syncManager.applySyncPlan(approvedPlan);
+
+				// Persist the synced library statuses and sync checkpoints
+				await this.saveSettings();
+			}
+		} catch (error) {
+			console.error('Sync preview failed:', error);
+			new Notice('Sync preview failed. Check console for details.');
+		}
+	}
+
+	/**
+	 * Pushes edits to in_library to the library, after confirmation, before a full sync overwrites them.
+	 */
+	private async pushLibraryStatusEditsBeforeFullSync(syncManager: SyncEngine): Promise<void> {
+		if (!this.settings.library_write_back_enabled) {
+			return;
+		}
+
+		const changes = await syncManager.findLibraryStatusChanges();
+		if (changes.length > 0) {
+			await this.confirmAndPushLibraryStatusChanges(syncManager, changes);
+		}
+	}
+
 	async syncRecent(silent?: boolean): Promise<void> {
 		if (!this.spotifyApi) {
 			new Notice('Please login to Spotify first');
@@ -212,14 +422,297 @@ export default class ObsidianSpotify extends Plugin {
 
 		try {
 			const musicLibrarySource = new SpotifyLibrarySource(this.spotifyApi, this.settings);
-			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource, this.createSyncJournal());
 			await syncManager.incrementalSync(silent);
+
+			// Persist the sync checkpoints
+			await this.saveSettings();
+		} catch (error) {
+			console.error('Sync failed:', error);
+			new Notice('Sync failed. Check console for details.');
+		}
+	}
+
+	/**
+	 * Adds ISRCs and UPCs to existing track and album notes that are missing them.
+	 */
+	async backfillExternalIds(): Promise<void> {
+		if (!this.spotifyApi) {
+			new Notice('Please login to Spotify first');
+			return;
+		}
+
+		try {
+			const musicLibrarySource = new SpotifyLibrarySource(this.spotifyApi, this.settings);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource);
+			await syncManager.backfillExternalIds();
+		} catch (error) {
+			console.error('Backfill failed:', error);
+			new Notice('Backfill failed. Check console for details.');
+		}
+	}
+
+	/**
+	 * Lists the releases of the artist of the note in its frontmatter, optionally creating album notes.
+	 */
+	async importDiscography(file: TFile): Promise<void> {
+		if (!this.spotifyApi) {
+			new Notice('Please login to Spotify first');
+			return;
+		}
+
+		try {
+			const musicLibrarySource = new SpotifyLibrarySource(this.spotifyApi, this.settings);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource);
+			await syncManager.importDiscography(file);
+		} catch (error) {
+			console.error('Discography import failed:', error);
+			new Notice('Discography import failed. Check console for details.');
+		}
+	}
+
+	/**
+	 * Imports play counts from the Spotify streaming history export files in the vault.
+	 */
+	async importStreamingHistory(): Promise<void> {
+		if (!this.spotifyApi) {
+			new Notice('Please login to Spotify first');
+			return;
+		}
+
+		try {
+			const musicLibrarySource = new SpotifyLibrarySource(this.spotifyApi, this.settings);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource);
+			await syncManager.importStreamingHistory();
+		} catch (error) {
+			console.error('Streaming history import failed:', error);
+			new Notice('Streaming history import failed. Check console for details.');
+		}
+	}
+
+	/**
+	 * Logs recently played tracks to the listening log.
+	 */
+	async syncListeningLog(silent?: boolean): Promise<void> {
+		if (!this.spotifyApi) {
+			!silent && new Notice('Please login to Spotify first');
+			return;
+		}
+
+		try {
+			const musicLibrarySource = new SpotifyLibrarySource(this.spotifyApi, this.settings);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource);
+			await syncManager.syncListeningLog(silent);
+
+			// Persist the listening log cursor
+			await this.saveSettings();
+		} catch (error) {
+			console.error('Listening log sync failed:', error);
+			!silent && new Notice('Listening log sync failed. Check console for details.');
+		}
+	}
+
+	/**
+	 * Pushes edits to in_library in notes to the Spotify library, after confirmation.
+	 */
+	async pushLibraryStatusChanges(): Promise<void> {
+		if (!this.spotifyApi) {
+			new Notice('Please login to Spotify first');
+			return;
+		}
+
+		if (!this.settings.library_write_back_enabled) {
+			new Notice('Enable pushing library status to Spotify in the settings first');
+			return;
+		}
+
+		try {
+			const musicLibrarySource = new SpotifyLibrarySource(this.spotifyApi, this.settings);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource);
+
+			const changes = await syncManager.findLibraryStatusChanges();
+			if (changes.length === 0) {
+				new Notice('No library status changes to push');
+				return;
+			}
+
+			await this.confirmAndPushLibraryStatusChanges(syncManager, changes);
+		} catch (error) {
+			console.error('Library write-back failed:', error);
+			new Notice('Library write-back failed. Check console for details.');
+		}
+	}
+
+	/**
+	 * Command check for saving the active note to (or removing it from) the Spotify library.
+	 */
+	private checkLibraryStatusCommand(checking: boolean, inLibrary: boolean): boolean {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile || !this.spotifyApi || !this.settings.library_write_back_enabled) {
+			return false;
+		}
+
+		if (!checking) {
+			this.setActiveFileLibraryStatus(activeFile, inLibrary);
+		}
+		return true;
+	}
+
+	private async setActiveFileLibraryStatus(activeFile: TFile, inLibrary: boolean): Promise<void> {
+		if (!this.spotifyApi) {
+			return;
+		}
+
+		try {
+			const musicLibrarySource = new SpotifyLibrarySource(this.spotifyApi, this.settings);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource);
+
+			const change = await syncManager.getLibraryStatusChange(activeFile, inLibrary);
+			if (!change) {
+				new Notice('This note is not an artist, album or track in the music catalog');
+				return;
+			}
+
+			await this.confirmAndPushLibraryStatusChanges(syncManager, [change]);
+		} catch (error) {
+			console.error('Library write-back failed:', error);
+			new Notice('Library write-back failed. Check console for details.');
+		}
+	}
+
+	private async confirmAndPushLibraryStatusChanges(syncManager: SyncEngine, changes: LibraryStatusChange[]): Promise<void> {
+		const confirmed = await new LibraryStatusChangesModal(this.app, changes).confirm();
+		if (!confirmed) {
+			return;
+		}
+
+		await syncManager.pushLibraryStatusChanges(changes);
+
+		// Persist the synced library statuses
+		await this.saveSettings();
+	}
+
+	/**
+	 * Writes a snapshot note of the current top artists and tracks.
+	 */
+	async snapshotTopItems(silent?: boolean): Promise<void> {
+		if (!this.spotifyApi) {
+			!silent && new Notice('Please login to Spotify first');
+			return;
+		}
+
+		try {
+			const musicLibrarySource = new SpotifyLibrarySource(this.spotifyApi, this.settings);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource);
+			await syncManager.snapshotTopItems(silent);
+
+			// Persist the time of the last snapshot
+			await this.saveSettings();
+		} catch (error) {
+			console.error('Top items snapshot failed:', error);
+			!silent && new Notice('Top items snapshot failed. Check console for details.');
+		}
+	}
+
+	/**
+	 * Takes a scheduled top items snapshot if the configured interval has passed since the last one.
+	 */
+	private async snapshotTopItemsIfDue(): Promise<void> {
+		const intervalDays = this.settings.top_snapshot_interval_days;
+		if (!intervalDays || !this.spotifyApi) {
+			return;
+		}
+
+		const dueAt = this.settings.top_snapshot_last_run + intervalDays * 24 * 60 * 60 * 1000;
+		if (Date.now() >= dueAt) {
+			await this.snapshotTopItems(true);
+		}
+	}
+
+	/**
+	 * Performs a full sync of the audio files in the local music folder.
+	 * Does not require a Spotify login.
+	 */
+	async syncLocalLibrary(): Promise<void> {
+		if (!this.settings.local_music_files_path?.trim()) {
+			new Notice('Please set the local music files path first');
+			return;
+		}
+
+		try {
+			const musicLibrarySource = new LocalLibrarySource(this.app, this.settings);
+			const syncManager = new SyncEngine(this.app, this.settings, musicLibrarySource, this.createSyncJournal());
+			await syncManager.fullSync();
 		} catch (error) {
 			console.error('Sync failed:', error);
 			new Notice('Sync failed. Check console for details.');
 		}
 	}
 
+	/**
+	 * Lists duplicate notes in the music catalog, so that they can be merged.
+	 * Does not require a Spotify login.
+	 */
+	async findDuplicates(): Promise<void> {
+		try {
+			const duplicateMerger = new DuplicateMerger(this.app, this.settings);
+			const groups = await duplicateMerger.findDuplicates();
+			if (groups.length === 0) {
+				new Notice('No duplicate notes found');
+				return;
+			}
+
+			new DuplicatesModal(this.app, groups, (group, survivor) => duplicateMerger.merge(group, survivor)).open();
+		} catch (error) {
+			console.error('Finding duplicates failed:', error);
+			new Notice('Finding duplicates failed. Check console for details.');
+		}
+	}
+
+	/**
+	 * Deletes the notes created by the last sync and restores the frontmatter it changed.
+	 */
+	async undoLastSync(): Promise<void> {
+		try {
+			const undoneRunName = await this.createSyncJournal().undoLastRun();
+			if (!undoneRunName) {
+				new Notice('No sync to undo');
+				return;
+			}
+
+			// Persist the restored sync checkpoints
+			await this.saveSettings();
+			new Notice(`Undid ${undoneRunName.toLowerCase()}`);
+		} catch (error) {
+			console.error('Undo failed:', error);
+			new Notice('Undo failed. Check console for details.');
+		}
+	}
+
+	/**
+	 * Creates a journal that saves sync runs in the plugin folder.
+	 */
+	private createSyncJournal(): SyncJournal {
+		const pluginFolder = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return new SyncJournal(this.app, this.settings, `${pluginFolder}/sync-journal`);
+	}
+
+	/**
+	 * Checks for new plays to log every `listening_log_poll_minutes`, replacing any earlier polling.
+	 */
+	restartListeningLogPolling(): void {
+		if (this.listeningLogPollInterval !== undefined) {
+			window.clearInterval(this.listeningLogPollInterval);
+			this.listeningLogPollInterval = undefined;
+		}
+
+		if (this.settings.listening_log_poll_minutes > 0) {
+			this.listeningLogPollInterval = this.registerInterval(window.setInterval(async () => {
+				await this.syncListeningLog(true);
+			}, this.settings.listening_log_poll_minutes * 60 * 1000));
+		}
+	}
+
 	/**
 	 * Initialize app focus detection for mobile.
 	 */
@@ -268,7 +761,8 @@ export default class ObsidianSpotify extends Plugin {
 	 * Loads the plugin settings.
 	 */
 	async loadSettings(): Promise<void> {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// The defaults are copied, so that changing nested settings in place doesn't change the defaults
+		this.settings = Object.assign(structuredClone(DEFAULT_SETTINGS), await this.loadData());
 	}
 
 	/**
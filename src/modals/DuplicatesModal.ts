@@ -0,0 +1,95 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { DuplicateGroup } from '../sync/DuplicateMerger';
+import { MusicEntity, MusicFile } from '../sync/types';
+
+/**
+ * Lists groups of duplicate notes, and merges the ticked notes of a group into the note picked to keep.
+ */
+export class DuplicatesModal extends Modal {
+    private readonly survivors = new Map<DuplicateGroup, MusicFile<MusicEntity>>();
+    // Notes unticked because they only look like duplicates
+    private readonly excludedFiles = new Set<MusicFile<MusicEntity>>();
+
+    constructor(
+        app: App,
+        private groups: DuplicateGroup[],
+        private mergeGroup: (group: DuplicateGroup, survivor: MusicFile<MusicEntity>) => Promise<void>
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        this.titleEl.setText(`Duplicate notes (${this.groups.length} groups)`);
+
+        if (this.groups.length === 0) {
+            contentEl.createEl('p', { text: 'No duplicates left.' });
+            return;
+        }
+
+        contentEl.createEl('p', {
+            text: 'Pick the note to keep in each group, and untick notes that aren\'t duplicates. Merging combines the IDs, fields and text of the other ticked notes into the kept note, points links at it, and moves the other ticked notes to the trash.'
+        });
+
+        this.groups.forEach((group, groupIndex) => this.renderGroup(group, groupIndex));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private renderGroup(group: DuplicateGroup, groupIndex: number): void {
+        const survivor = this.survivors.get(group) ?? group.files[0];
+        this.survivors.set(group, survivor);
+
+        new Setting(this.contentEl)
+            .setName(`${group.files[0].title || group.files[0].file.basename} (${group.entityType})`)
+            .setHeading()
+            .addButton(button => button
+                .setButtonText('Merge')
+                .setCta()
+                .onClick(async () => {
+                    const chosenSurvivor = this.survivors.get(group) ?? survivor;
+                    const files = group.files.filter(file => !this.excludedFiles.has(file));
+                    if (files.length < 2 || !files.includes(chosenSurvivor)) {
+                        new Notice('Tick the note to keep and at least one note to merge into it');
+                        return;
+                    }
+
+                    button.setDisabled(true);
+                    await this.mergeGroup({ ...group, files }, chosenSurvivor);
+                    this.groups = this.groups.filter(candidate => candidate !== group);
+                    this.onOpen();
+                }));
+
+        const listEl = this.contentEl.createDiv();
+        group.files.forEach(file => {
+            const itemEl = listEl.createDiv();
+            const checkbox = itemEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = !this.excludedFiles.has(file);
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    this.excludedFiles.delete(file);
+                } else {
+                    this.excludedFiles.add(file);
+                }
+            });
+
+            const labelEl = itemEl.createEl('label');
+            const radio = labelEl.createEl('input', { type: 'radio' });
+            radio.name = `duplicate-group-${groupIndex}`;
+            radio.checked = file === survivor;
+            radio.addEventListener('change', () => this.survivors.set(group, file));
+            labelEl.appendText(` ${file.file.path}${this.describeIds(file)}`);
+        });
+    }
+
+    private describeIds(file: MusicFile<MusicEntity>): string {
+        const ids = Object.entries(file.ids ?? {})
+            .filter(([_, id]) => !!id)
+            .map(([idType, id]) => `${idType}: ${id}`);
+        return ids.length > 0 ? ` (${ids.join(', ')})` : '';
+    }
+}
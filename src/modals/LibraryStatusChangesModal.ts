@@ -0,0 +1,76 @@
+import { App, Modal, Setting } from 'obsidian';
+import { LibraryEntityType, LibraryStatusChange } from '../sync/types';
+
+/**
+ * Lists the library status changes that are about to be pushed to Spotify, and asks the user to confirm them.
+ */
+export class LibraryStatusChangesModal extends Modal {
+    private readonly ACTION_LABELS: Record<LibraryEntityType, { save: string, remove: string }> = {
+        artist: { save: 'Follow artists', remove: 'Unfollow artists' },
+        album: { save: 'Save albums', remove: 'Remove saved albums' },
+        track: { save: 'Save tracks', remove: 'Remove saved tracks' }
+    };
+
+    private confirmed = false;
+    private resolveConfirmation?: (confirmed: boolean) => void;
+
+    constructor(
+        app: App,
+        private changes: LibraryStatusChange[]
+    ) {
+        super(app);
+    }
+
+    /**
+     * Opens the modal.
+     * @returns Whether the user confirmed the changes
+     */
+    confirm(): Promise<boolean> {
+        return new Promise(resolve => {
+            this.resolveConfirmation = resolve;
+            this.open();
+        });
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        this.titleEl.setText('Push library changes to Spotify?');
+        contentEl.createEl('p', { text: 'If cancelled, these notes are reset to match Spotify by the next full sync.' });
+
+        const entityTypes: LibraryEntityType[] = ['artist', 'album', 'track'];
+        entityTypes.forEach(entityType => {
+            this.renderChangeList(this.ACTION_LABELS[entityType].save, entityType, true);
+            this.renderChangeList(this.ACTION_LABELS[entityType].remove, entityType, false);
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(`Push ${this.changes.length} changes`)
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        this.resolveConfirmation?.(this.confirmed);
+    }
+
+    private renderChangeList(heading: string, entityType: LibraryEntityType, inLibrary: boolean): void {
+        const changes = this.changes.filter(change => change.entityType === entityType && change.inLibrary === inLibrary);
+        if (changes.length === 0) {
+            return;
+        }
+
+        this.contentEl.createEl('h4', { text: `${heading} (${changes.length})` });
+        const listEl = this.contentEl.createEl('ul');
+        changes.forEach(change => listEl.createEl('li', { text: change.file.title }));
+    }
+}
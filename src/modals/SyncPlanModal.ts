@@ -0,0 +1,151 @@
+import { App, Modal, Setting } from 'obsidian';
+import { FieldChange, SyncPlan } from '../sync/SyncPlan';
+
+/**
+ * Lists the changes a sync would make, and lets the user pick which of them to apply.
+ */
+export class SyncPlanModal extends Modal {
+    private readonly MAX_VALUE_LENGTH = 80;
+
+    // Everything starts out selected
+    private readonly deselected = new Set<object>();
+    private approved = false;
+    private resolveReview?: (approvedPlan: SyncPlan | undefined) => void;
+
+    constructor(
+        app: App,
+        private plan: SyncPlan
+    ) {
+        super(app);
+    }
+
+    /**
+     * Opens the modal.
+     * @returns The plan narrowed down to the selected changes, or undefined if cancelled
+     */
+    review(): Promise<SyncPlan | undefined> {
+        return new Promise(resolve => {
+            this.resolveReview = resolve;
+            this.open();
+        });
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        this.titleEl.setText('Review full sync');
+
+        this.renderSection(
+            'New notes',
+            this.plan.creations,
+            creation => `${creation.folderPath}/${creation.title}`
+        );
+
+        this.renderSection(
+            'Updated notes',
+            this.plan.updates,
+            update => update.file.path,
+            (update, itemEl) => this.renderFieldChanges(update.changes, itemEl)
+        );
+
+        this.renderSection(
+            'Library status changes',
+            this.plan.libraryStatusChanges,
+            change => `${change.file.path}: ${change.inLibrary ? 'saved to library' : 'removed from library'}`
+        );
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Apply selected changes')
+                .setCta()
+                .onClick(() => {
+                    this.approved = true;
+                    this.close();
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        this.resolveReview?.(this.approved ? this.getApprovedPlan() : undefined);
+    }
+
+    private getApprovedPlan(): SyncPlan {
+        const isSelected = (item: object) => !this.deselected.has(item);
+
+        return {
+            ...this.plan,
+            creations: this.plan.creations.filter(isSelected),
+            updates: this.plan.updates.filter(isSelected),
+            libraryStatusChanges: this.plan.libraryStatusChanges.filter(isSelected)
+        };
+    }
+
+    private renderSection<T extends object>(
+        heading: string,
+        items: T[],
+        describe: (item: T) => string,
+        renderDetails?: (item: T, itemEl: HTMLElement) => void
+    ): void {
+        if (items.length === 0) {
+            return;
+        }
+
+        new Setting(this.contentEl)
+            .setName(`${heading} (${items.length})`)
+            .setHeading()
+            .addExtraButton(button => button
+                .setIcon('check-square')
+                .setTooltip('Select all')
+                .onClick(() => setAllSelected(true)))
+            .addExtraButton(button => button
+                .setIcon('square')
+                .setTooltip('Deselect all')
+                .onClick(() => setAllSelected(false)));
+
+        const listEl = this.contentEl.createDiv();
+        const checkboxes = items.map(item => {
+            const itemEl = listEl.createDiv();
+            const labelEl = itemEl.createEl('label');
+            const checkbox = labelEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = !this.deselected.has(item);
+            checkbox.addEventListener('change', () => {
+                checkbox.checked ? this.deselected.delete(item) : this.deselected.add(item);
+            });
+            labelEl.appendText(` ${describe(item)}`);
+
+            renderDetails?.(item, itemEl);
+            return { item, checkbox };
+        });
+
+        const setAllSelected = (selected: boolean) => {
+            checkboxes.forEach(({ item, checkbox }) => {
+                checkbox.checked = selected;
+                selected ? this.deselected.delete(item) : this.deselected.add(item);
+            });
+        };
+    }
+
+    private renderFieldChanges(changes: FieldChange[], itemEl: HTMLElement): void {
+        const changesEl = itemEl.createEl('ul');
+        changes.forEach(change => {
+            changesEl.createEl('li', {
+                text: `${change.field}: ${this.formatValue(change.oldValue)} → ${this.formatValue(change.newValue)}`
+            });
+        });
+    }
+
+    private formatValue(value: unknown): string {
+        if (value === undefined || value === null) {
+            return '(none)';
+        }
+
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        return text.length > this.MAX_VALUE_LENGTH
+            ? `${text.slice(0, this.MAX_VALUE_LENGTH)}…`
+            : text;
+    }
+}
@@ -1,6 +1,33 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import { AccessToken } from '@spotify/web-api-ts-sdk';
 import ObsidianSpotify from './main';
+import { DEFAULT_MUSICBRAINZ_BASE_URL } from './sync/music-sources/musicbrainz/MusicBrainzClient';
+import { DEFAULT_SPOTIFY_API_BASE_URL } from './sync/music-sources/spotify/SpotifyRequestLimiter';
+import { USER_MARKET } from './sync/music-sources/spotify/SpotifyUtils';
+import { FILE_NAME_TOKEN_NAMES, SAMPLE_FILE_NAME_TOKENS, renderFileName, renderFolderPath } from './sync/FileNameTemplate';
+import { BODY_TEMPLATE_VARIABLES } from './sync/BodyTemplateRenderer';
+import { FRONTMATTER_FIELDS, isRequiredFrontmatterField } from './sync/FrontmatterSchema';
+import { CatalogEntityType } from './sync/types';
+
+/**
+ * Checkpoints of what has been synced, so that incremental syncs only fetch what changed since.
+ */
+export interface SyncState {
+    /**
+     * When the newest synced saved album was added, in milliseconds since the epoch (0 if never synced).
+     */
+    saved_albums_added_at: number;
+
+    /**
+     * When the newest synced saved track was added, in milliseconds since the epoch (0 if never synced).
+     */
+    saved_tracks_added_at: number;
+
+    /**
+     * The synced snapshot_id of each playlist, by playlist ID.
+     */
+    playlist_snapshot_ids: Record<string, string>;
+}
 
 /**
  * Represents the settings for the Obsidian Spotify integration.
@@ -21,6 +48,11 @@ export interface ObsidianSpotifySettings {
      */
     spotify_access_token: AccessToken;
 
+    /**
+     * The base URL of the Spotify Web API (can point at a local fake server for testing).
+     */
+    spotify_api_base_url: string;
+
     /**
      * The base path where music catalogs will be stored.
      */
@@ -41,11 +73,62 @@ export interface ObsidianSpotifySettings {
      */
     tracks_path: string;
 
+    /**
+     * The path where playlist notes will be stored (relative to base path).
+     */
+    playlists_path: string;
+
+    /**
+     * The file name template for new artist notes, e.g. "{title}" (see `FileNameTokens` for the available tokens).
+     */
+    artist_file_name_template: string;
+
+    /**
+     * The file name template for new album notes, e.g. "{title} - {artist}".
+     */
+    album_file_name_template: string;
+
+    /**
+     * The file name template for new track notes, e.g. "{title} - {album} - {artist}".
+     */
+    track_file_name_template: string;
+
+    /**
+     * The file name template for new playlist notes, e.g. "{title}".
+     */
+    playlist_file_name_template: string;
+
+    /**
+     * The subfolders that new artist notes are put in, e.g. "{artist}" (empty to put them directly in the artists folder).
+     */
+    artist_folder_template: string;
+
+    /**
+     * The subfolders that new album notes are put in, e.g. "{artist}/{year}" (empty to put them directly in the albums folder).
+     */
+    album_folder_template: string;
+
+    /**
+     * The subfolders that new track notes are put in, e.g. "{artist}/{album}" (empty to put them directly in the tracks folder).
+     */
+    track_folder_template: string;
+
+    /**
+     * The subfolders that new playlist notes are put in (empty to put them directly in the playlists folder).
+     */
+    playlist_folder_template: string;
+
     /**
      * The base path where local music files are stored.
      */
     local_music_files_path: string;
 
+    /**
+     * Whether to link streaming tracks to local audio files with matching artist, album and title tags.
+     * Spotify local files are always linked.
+     */
+    match_local_files_by_metadata: boolean;
+
     /**
      * List of Spotify playlist IDs to sync tracks from (in addition to Liked Songs).
      */
@@ -56,6 +139,127 @@ export interface ObsidianSpotifySettings {
      */
     playlist_names: Record<string, string>;
 
+    /**
+     * Whether to look up MusicBrainz IDs for synced artists, albums and tracks.
+     */
+    musicbrainz_enabled: boolean;
+
+    /**
+     * The base URL of the MusicBrainz web service (can point at a mirror).
+     */
+    musicbrainz_base_url: string;
+
+    /**
+     * When MusicBrainz last found no ID for an entity, in milliseconds since the epoch, keyed by primary ID.
+     * Those entities aren't looked up again until the miss expires.
+     */
+    musicbrainz_misses: Record<string, number>;
+
+    /**
+     * Whether edits to `in_library` in notes are pushed back to Spotify (saving, removing, following or unfollowing).
+     */
+    library_write_back_enabled: boolean;
+
+    /**
+     * The library status of each entity as of the last sync, keyed by primary ID.
+     * Used to detect edits to `in_library` when write-back is enabled.
+     */
+    library_status_baseline: Record<string, boolean>;
+
+    /**
+     * What a full sync does with the notes of artists, albums and tracks removed from the library,
+     * besides setting `in_library` to false. Undone when they are saved again.
+     */
+    removal_policy: 'keep' | 'tag' | 'archive' | 'removed_at';
+
+    /**
+     * The folder holding the Spotify "Extended streaming history" export files (empty to search the whole vault).
+     */
+    streaming_history_path: string;
+
+    /**
+     * Minimum play count for a track missing from the catalog to get its own note when importing
+     * streaming history (0 to never create notes).
+     */
+    streaming_history_min_plays_for_new_notes: number;
+
+    /**
+     * Where to write the listening log: one note per day in the listening log folder, or the daily note.
+     */
+    listening_log_target: 'log-notes' | 'daily-note';
+
+    /**
+     * The path where listening log notes will be stored (relative to base path).
+     */
+    listening_log_path: string;
+
+    /**
+     * How often to check for new plays to log, in minutes (0 to disable).
+     */
+    listening_log_poll_minutes: number;
+
+    /**
+     * Time of the last logged play, in milliseconds since the epoch.
+     */
+    listening_log_cursor: number;
+
+    /**
+     * The path where top artists and tracks snapshot notes will be stored (relative to base path).
+     */
+    top_snapshots_path: string;
+
+    /**
+     * How often to snapshot the top artists and tracks, in days (0 to disable).
+     */
+    top_snapshot_interval_days: number;
+
+    /**
+     * Time of the last top artists and tracks snapshot, in milliseconds since the epoch.
+     */
+    top_snapshot_last_run: number;
+
+    /**
+     * Whether notes are created for every track of saved albums, not just saved tracks.
+     * These notes are marked as not in the library.
+     */
+    create_album_track_notes: boolean;
+
+    /**
+     * Whether full syncs import the discographies of followed artists into their notes.
+     */
+    import_followed_artist_discographies: boolean;
+
+    /**
+     * Whether importing a discography creates notes for the albums and compilations not in the catalog.
+     * These notes are marked as not in the library.
+     */
+    discography_create_album_notes: boolean;
+
+    /**
+     * Whether cover art is downloaded into the vault, instead of linking to the image URL of the source.
+     */
+    download_cover_art: boolean;
+
+    /**
+     * The path where downloaded cover art will be stored (relative to base path).
+     */
+    cover_art_path: string;
+
+    /**
+     * Whether each sync writes a report of the notes it created, refreshed or removed from the library.
+     */
+    sync_reports_enabled: boolean;
+
+    /**
+     * The path where sync report notes will be stored (relative to base path).
+     */
+    sync_reports_path: string;
+
+    /**
+     * Checkpoints of the last sync, used by incremental syncs.
+     */
+    sync_state: SyncState;
+
     /**
      * Whether to automatically sync on plugin load.
      */
@@ -80,6 +284,38 @@ export interface ObsidianSpotifySettings {
      * Default frontmatter to include when creating new artist notes.
      */
     default_artist_frontmatter: string;
+
+    /**
+     * Path of a note in the vault whose text is used as the body of new artist notes. Empty for no template.
+     */
+    artist_body_template_path: string;
+
+    /**
+     * Path of a note in the vault whose text is used as the body of new album notes. Empty for no template.
+     */
+    album_body_template_path: string;
+
+    /**
+     * Path of a note in the vault whose text is used as the body of new track notes. Empty for no template.
+     */
+    track_body_template_path: string;
+
+    /**
+     * Path of a note in the vault whose text is used as the body of new playlist notes. Empty for no template.
+     */
+    playlist_body_template_path: string;
+
+    /**
+     * Keys that frontmatter fields are stored under instead of their default keys, by field path (e.g. `music_ids.spotify_id`).
+     * Keys can contain dots to nest fields.
+     */
+    frontmatter_field_keys: Record<string, string>;
+
+    /**
+     * Paths of frontmatter fields that are neither read nor written.
+     * Popularity is off by default, since it changes with nearly every sync.
+     */
+    disabled_frontmatter_fields: string[];
 }
 
 /**
@@ -94,20 +330,68 @@ export const DEFAULT_SETTINGS: ObsidianSpotifySettings = {
         expires_in: 0,
         refresh_token: ""
     },
+    spotify_api_base_url: DEFAULT_SPOTIFY_API_BASE_URL,
     music_catalog_base_path: 'Music',
     artists_path: 'Artists',
     albums_path: 'Albums',
     tracks_path: 'Tracks',
+    playlists_path: 'Playlists',
+    artist_file_name_template: '{title}',
+    album_file_name_template: '{title} - {artist}',
+    track_file_name_template: '{title} - {album} - {artist}',
+    playlist_file_name_template: '{title}',
+    artist_folder_template: '',
+    album_folder_template: '',
+    track_folder_template: '',
+    playlist_folder_template: '',
     local_music_files_path: '',
+    match_local_files_by_metadata: false,
     playlist_ids: [],
     playlist_names: {},
+    musicbrainz_enabled: false,
+    musicbrainz_base_url: DEFAULT_MUSICBRAINZ_BASE_URL,
+    musicbrainz_misses: {},
+    library_write_back_enabled: false,
+    library_status_baseline: {},
+    removal_policy: 'keep',
+    streaming_history_path: '',
+    streaming_history_min_plays_for_new_notes: 0,
+    listening_log_target: 'log-notes',
+    listening_log_path: 'Listening Log',
+    listening_log_poll_minutes: 0,
+    listening_log_cursor: 0,
+    top_snapshots_path: 'Top Snapshots',
+    top_snapshot_interval_days: 0,
+    top_snapshot_last_run: 0,
+    create_album_track_notes: false,
+    import_followed_artist_discographies: false,
+    discography_create_album_notes: false,
+    download_cover_art: false,
+    cover_art_path: 'Covers',
+    sync_reports_enabled: false,
+    sync_reports_path: 'Sync Reports',
+    sync_state: {
+        saved_albums_added_at: 0,
+        saved_tracks_added_at: 0,
+        playlist_snapshot_ids: {}
+    },
     auto_sync_on_load: false,
     sync_on_app_foreground: false,
     default_track_frontmatter: '',
     default_album_frontmatter: '',
     default_artist_frontmatter: '',
+    artist_body_template_path: '',
+    album_body_template_path: '',
+    track_body_template_path: '',
+    playlist_body_template_path: '',
+    frontmatter_field_keys: {},
+    disabled_frontmatter_fields: ['popularity'],
 }
 
+type TemplateSettingKey =
+    | 'artist_file_name_template' | 'album_file_name_template' | 'track_file_name_template' | 'playlist_file_name_template'
+    | 'artist_folder_template' | 'album_folder_template' | 'track_folder_template' | 'playlist_folder_template';
+
 export class ObsidianSpotifySettingsTab extends PluginSettingTab {
     plugin: ObsidianSpotify;
     private currentTab: 'spotify' | 'sync' | 'frontmatter' = 'spotify';
@@ -224,6 +508,17 @@ export class ObsidianSpotifySettingsTab extends PluginSettingTab {
                     this.plugin.tokenManager.cleanup();
                 }));
 
+        new Setting(containerEl)
+            .setName('Spotify API URL')
+            .setDesc('The base URL of the Spotify Web API, e.g. a local fake server for testing')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SPOTIFY_API_BASE_URL)
+                .setValue(this.plugin.settings.spotify_api_base_url)
+                .onChange(async (value) => {
+                    this.plugin.settings.spotify_api_base_url = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
         const usernameContainer = new Setting(containerEl)
             .setName('Logged in as')
             .setDesc('The current logged in user');
@@ -295,9 +590,50 @@ export class ObsidianSpotifySettingsTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Playlists Subfolder')
+            .setDesc('Subfolder name for playlist notes (relative to base path)')
+            .addText(text => text
+                .setPlaceholder('e.g., Playlists')
+                .setValue(this.plugin.settings.playlists_path)
+                .onChange(async (value) => {
+                    this.plugin.settings.playlists_path = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'File Names' });
+
+        containerEl.createEl('p', {
+            text: `File names of new notes. Available tokens: ${FILE_NAME_TOKEN_NAMES.map(name => `{${name}}`).join(', ')}. `
+                + 'Use the "Rename Notes to Match File Name Templates" command to rename existing notes.'
+        });
+
+        const previewFileName = (entityType: CatalogEntityType) =>
+            (template: string) => `${renderFileName(template, SAMPLE_FILE_NAME_TOKENS[entityType])}.md`;
+
+        this.addTemplateSetting(containerEl, 'Artist File Names', 'artist_file_name_template', previewFileName('artist'));
+        this.addTemplateSetting(containerEl, 'Album File Names', 'album_file_name_template', previewFileName('album'));
+        this.addTemplateSetting(containerEl, 'Track File Names', 'track_file_name_template', previewFileName('track'));
+        this.addTemplateSetting(containerEl, 'Playlist File Names', 'playlist_file_name_template', previewFileName('playlist'));
+
+        containerEl.createEl('h3', { text: 'Folder Layout' });
+
+        containerEl.createEl('p', {
+            text: 'Subfolders of the artists, albums, tracks and playlists folders to put new notes in, e.g. {artist}/{year}. The same tokens as for file names can be used. '
+                + 'Use the "Move Notes to Match Folder Layout" command to move existing notes.'
+        });
+
+        const previewFolderPath = (entityType: CatalogEntityType, folderPath: string) =>
+            (template: string) => `${[folderPath, renderFolderPath(template, SAMPLE_FILE_NAME_TOKENS[entityType])].filter(path => !!path).join('/')}/`;
+
+        this.addTemplateSetting(containerEl, 'Artist Folders', 'artist_folder_template', previewFolderPath('artist', this.plugin.settings.artists_path));
+        this.addTemplateSetting(containerEl, 'Album Folders', 'album_folder_template', previewFolderPath('album', this.plugin.settings.albums_path));
+        this.addTemplateSetting(containerEl, 'Track Folders', 'track_folder_template', previewFolderPath('track', this.plugin.settings.tracks_path));
+        this.addTemplateSetting(containerEl, 'Playlist Folders', 'playlist_folder_template', previewFolderPath('playlist', this.plugin.settings.playlists_path));
+
         new Setting(containerEl)
             .setName('Local Music Files Path')
-            .setDesc('The base folder where your local music files are stored (for linking to actual audio files)')
+            .setDesc('The base folder where your local music files are stored (for linking to actual audio files, or syncing them as a library without Spotify)')
             .addText(text => text
                 .setPlaceholder('e.g., Music/Library')
                 .setValue(this.plugin.settings.local_music_files_path)
@@ -306,6 +642,16 @@ export class ObsidianSpotifySettingsTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Match local files by metadata')
+            .setDesc('Link Spotify tracks to local audio files with the same artist, album and title tags. Spotify local files are always linked.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.match_local_files_by_metadata)
+                .onChange(async (value) => {
+                    this.plugin.settings.match_local_files_by_metadata = value;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
             .setName('Auto-sync on plugin load')
             .setDesc('Automatically sync recent changes when the plugin loads')
@@ -330,12 +676,231 @@ export class ObsidianSpotifySettingsTab extends PluginSettingTab {
                     }
                 }));
 
+        new Setting(containerEl)
+            .setName('Push library status to Spotify')
+            .setDesc('When you change in_library in a note, save, remove, follow or unfollow it on Spotify. Changes are listed for confirmation before a full sync, and can also be pushed with the "Push Library Status Changes" command. Only notes synced since this was enabled are tracked.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.library_write_back_enabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.library_write_back_enabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('When removed from library')
+            .setDesc('What a full sync does with the notes of artists, albums and tracks you have removed from your library. This is undone if you save them again.')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Only set in_library to false')
+                .addOption('tag', 'Add the removed-from-library tag')
+                .addOption('archive', 'Move the note into an _Archive subfolder')
+                .addOption('removed_at', 'Record the date in removed_at')
+                .setValue(this.plugin.settings.removal_policy)
+                .onChange(async (value) => {
+                    this.plugin.settings.removal_policy = value as ObsidianSpotifySettings['removal_policy'];
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Album Tracklists' });
+
+        new Setting(containerEl)
+            .setName('Create notes for album tracks')
+            .setDesc('Create a note for every track of your saved albums, so album tracklists link to a note for each track. Tracks you haven\'t saved are marked as not in your library.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.create_album_track_notes)
+                .onChange(async (value) => {
+                    this.plugin.settings.create_album_track_notes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Discographies' });
+
+        new Setting(containerEl)
+            .setName('Import discographies of followed artists')
+            .setDesc('During a full sync, list the albums, singles and compilations of each followed artist in their note. Use "Import Artist Discography" to import the discography of any artist note.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.import_followed_artist_discographies)
+                .onChange(async (value) => {
+                    this.plugin.settings.import_followed_artist_discographies = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Create notes for discography albums')
+            .setDesc('Create notes for albums and compilations of a discography that aren\'t in your catalog yet, marked as not in your library')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.discography_create_album_notes)
+                .onChange(async (value) => {
+                    this.plugin.settings.discography_create_album_notes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Cover Art' });
+
+        new Setting(containerEl)
+            .setName('Download cover art')
+            .setDesc('Save covers of new notes in your vault and link to them, so they work offline. Run "Download Cover Art for Existing Notes" to download the covers of existing notes.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.download_cover_art)
+                .onChange(async (value) => {
+                    this.plugin.settings.download_cover_art = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Cover Art Subfolder')
+            .setDesc('Subfolder name for downloaded cover art (relative to base path)')
+            .addText(text => text
+                .setPlaceholder('e.g., Covers')
+                .setValue(this.plugin.settings.cover_art_path)
+                .onChange(async (value) => {
+                    this.plugin.settings.cover_art_path = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Sync Reports' });
+
+        new Setting(containerEl)
+            .setName('Write sync reports')
+            .setDesc('After each sync, add a section to that day\'s report note, linking to the notes it created or refreshed, the notes that left your library, and any errors')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.sync_reports_enabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.sync_reports_enabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Sync Reports Subfolder')
+            .setDesc('Subfolder name for sync report notes (relative to base path)')
+            .addText(text => text
+                .setPlaceholder('e.g., Sync Reports')
+                .setValue(this.plugin.settings.sync_reports_path)
+                .onChange(async (value) => {
+                    this.plugin.settings.sync_reports_path = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'MusicBrainz' });
+
+        new Setting(containerEl)
+            .setName('Look up MusicBrainz IDs')
+            .setDesc('Fill in the MusicBrainz ID (mbid) of synced artists, albums and tracks. MusicBrainz allows one request per second, so the first sync of a large library will be slow.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.musicbrainz_enabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.musicbrainz_enabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('MusicBrainz API URL')
+            .setDesc('The base URL of the MusicBrainz web service, e.g. for a local mirror')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_MUSICBRAINZ_BASE_URL)
+                .setValue(this.plugin.settings.musicbrainz_base_url)
+                .onChange(async (value) => {
+                    this.plugin.settings.musicbrainz_base_url = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Streaming History' });
+
+        containerEl.createDiv().innerHTML = `
+            <p>Request your <strong>Extended streaming history</strong> from Spotify's privacy settings, then copy the <code>Streaming_History_Audio_*.json</code> files into your vault and run the <em>Import Streaming History</em> command.</p>
+        `;
+
+        new Setting(containerEl)
+            .setName('Streaming History Folder')
+            .setDesc('The folder holding the streaming history files (leave empty to search the whole vault)')
+            .addText(text => text
+                .setPlaceholder('e.g., Music/Spotify Data')
+                .setValue(this.plugin.settings.streaming_history_path)
+                .onChange(async (value) => {
+                    this.plugin.settings.streaming_history_path = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Create notes for frequently played tracks')
+            .setDesc('Create notes for tracks that are not in your library but were played at least this many times (0 to disable)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.streaming_history_min_plays_for_new_notes))
+                .onChange(async (value) => {
+                    const minPlays = parseInt(value, 10);
+                    this.plugin.settings.streaming_history_min_plays_for_new_notes = isNaN(minPlays) ? 0 : Math.max(0, minPlays);
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Listening Log' });
+
+        new Setting(containerEl)
+            .setName('Listening Log Location')
+            .setDesc('Where to log recently played tracks')
+            .addDropdown(dropdown => dropdown
+                .addOption('log-notes', 'One note per day in the listening log folder')
+                .addOption('daily-note', 'Daily note')
+                .setValue(this.plugin.settings.listening_log_target)
+                .onChange(async (value) => {
+                    this.plugin.settings.listening_log_target = value as ObsidianSpotifySettings['listening_log_target'];
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Listening Log Subfolder')
+            .setDesc('Subfolder name for listening log notes (relative to base path)')
+            .addText(text => text
+                .setPlaceholder('e.g., Listening Log')
+                .setValue(this.plugin.settings.listening_log_path)
+                .onChange(async (value) => {
+                    this.plugin.settings.listening_log_path = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Listening Log Interval')
+            .setDesc('Check for new plays every this many minutes (0 to disable). Spotify only keeps your last 50 plays, so keep this short.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.listening_log_poll_minutes))
+                .onChange(async (value) => {
+                    const minutes = parseInt(value, 10);
+                    this.plugin.settings.listening_log_poll_minutes = isNaN(minutes) ? 0 : Math.max(0, minutes);
+                    await this.plugin.saveSettings();
+                    this.plugin.restartListeningLogPolling();
+                }));
+
+        containerEl.createEl('h3', { text: 'Top Artists and Tracks' });
+
+        new Setting(containerEl)
+            .setName('Top Snapshots Subfolder')
+            .setDesc('Subfolder name for top artists and tracks snapshot notes (relative to base path)')
+            .addText(text => text
+                .setPlaceholder('e.g., Top Snapshots')
+                .setValue(this.plugin.settings.top_snapshots_path)
+                .onChange(async (value) => {
+                    this.plugin.settings.top_snapshots_path = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Snapshot Interval')
+            .setDesc('Take a snapshot of your top artists and tracks every this many days (0 to only snapshot manually)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.top_snapshot_interval_days))
+                .onChange(async (value) => {
+                    const days = parseInt(value, 10);
+                    this.plugin.settings.top_snapshot_interval_days = isNaN(days) ? 0 : Math.max(0, days);
+                    await this.plugin.saveSettings();
+                }));
+
         // Track Sources Configuration
         containerEl.createEl('h3', { text: 'Track Sources' });
 
         containerEl.createDiv().innerHTML = `
             <p><strong>Liked Songs</strong> are automatically synced from your Spotify library.</p>
-            <p>You can also add additional playlists to sync tracks from:</p>
+            <p>You can also add additional playlists to sync tracks from. Each playlist gets its own note listing its tracks in order:</p>
         `;
 
         containerEl.createEl('h4', { text: 'Additional Playlists' });
@@ -353,6 +918,7 @@ export class ObsidianSpotifySettingsTab extends PluginSettingTab {
 			<p><strong>Full Artists Path:</strong> <code>${this.plugin.settings.music_catalog_base_path}/${this.plugin.settings.artists_path}</code></p>
 			<p><strong>Full Albums Path:</strong> <code>${this.plugin.settings.music_catalog_base_path}/${this.plugin.settings.albums_path}</code></p>
 			<p><strong>Full Tracks Path:</strong> <code>${this.plugin.settings.music_catalog_base_path}/${this.plugin.settings.tracks_path}</code></p>
+			<p><strong>Full Playlists Path:</strong> <code>${this.plugin.settings.music_catalog_base_path}/${this.plugin.settings.playlists_path}</code></p>
 			${this.plugin.settings.local_music_files_path ? `<p><strong>Local Music Files:</strong> <code>${this.plugin.settings.local_music_files_path}</code></p>` : ''}
 		`;
 
@@ -369,9 +935,40 @@ export class ObsidianSpotifySettingsTab extends PluginSettingTab {
                 .setButtonText('Recent Sync')
                 .onClick(async () => {
                     await this.plugin.syncRecent();
+                }))
+            .addButton(button => button
+                .setButtonText('Local Library Sync')
+                .onClick(async () => {
+                    await this.plugin.syncLocalLibrary();
                 }));
     }
 
+    /**
+     * Adds a text setting for a file name or folder template, previewing what it gives for an example entity.
+     * Clearing the template resets it to the default.
+     */
+    private addTemplateSetting(
+        containerEl: HTMLElement,
+        name: string,
+        settingKey: TemplateSettingKey,
+        renderPreview: (template: string) => string
+    ): void {
+        const setting = new Setting(containerEl).setName(name);
+        const updatePreview = (template: string) => {
+            setting.setDesc(`Preview: ${renderPreview(template || DEFAULT_SETTINGS[settingKey])}`);
+        };
+
+        setting.addText(text => text
+            .setPlaceholder(DEFAULT_SETTINGS[settingKey] || 'e.g., {artist}')
+            .setValue(this.plugin.settings[settingKey])
+            .onChange(async (value) => {
+                this.plugin.settings[settingKey] = value || DEFAULT_SETTINGS[settingKey];
+                updatePreview(value);
+                await this.plugin.saveSettings();
+            }));
+        updatePreview(this.plugin.settings[settingKey]);
+    }
+
     private displayFrontmatterTab(containerEl: HTMLElement): void {
         containerEl.createEl('h2', { text: 'Default Frontmatter' });
 
@@ -428,6 +1025,92 @@ mood:</code></pre>
         noteEl.innerHTML = `
             <p><strong>Note:</strong> Default frontmatter is only applied when creating new notes. Existing notes will not be modified. The plugin will automatically add its own metadata (title, spotify_id, spotify_url, etc.) alongside your custom frontmatter.</p>
         `;
+
+        containerEl.createEl('h2', { text: 'Note Templates' });
+
+        containerEl.createEl('p', {
+            text: 'Pick a note in your vault to use as the body of new notes. The frontmatter of the template note is left out. ' +
+                `Available variables: ${BODY_TEMPLATE_VARIABLES.map(variable => `{{${variable}}}`).join(', ')}.`
+        });
+
+        this.addBodyTemplateSetting(containerEl, 'Artist Note Template', 'artist_body_template_path', 'Templates/Artist');
+        this.addBodyTemplateSetting(containerEl, 'Album Note Template', 'album_body_template_path', 'Templates/Album');
+        this.addBodyTemplateSetting(containerEl, 'Track Note Template', 'track_body_template_path', 'Templates/Track');
+        this.addBodyTemplateSetting(containerEl, 'Playlist Note Template', 'playlist_body_template_path', 'Templates/Playlist');
+
+        containerEl.createEl('h2', { text: 'Frontmatter Fields' });
+
+        containerEl.createEl('p', {
+            text: 'Change the keys that fields are stored under, or turn off fields you don\'t want in your notes. ' +
+                'Use dots to nest a field, or leave them out to move a field to the top level. ' +
+                'After changing keys, run "Migrate Frontmatter to Field Mapping" to move the fields of existing notes.'
+        });
+
+        new Setting(containerEl)
+            .setName('Flatten IDs')
+            .setDesc('Store IDs as top level properties, e.g. spotify_id instead of music_ids.spotify_id')
+            .addButton(button => button
+                .setButtonText('Flatten')
+                .onClick(async () => {
+                    const idKeys = FRONTMATTER_FIELDS
+                        .filter(field => field.startsWith('music_ids.'))
+                        .map(field => [field, field.slice('music_ids.'.length)]);
+                    this.plugin.settings.frontmatter_field_keys = {
+                        ...this.plugin.settings.frontmatter_field_keys,
+                        ...Object.fromEntries(idKeys)
+                    };
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        FRONTMATTER_FIELDS.forEach(field => this.addFrontmatterFieldSetting(containerEl, field));
+    }
+
+    private addFrontmatterFieldSetting(containerEl: HTMLElement, field: string): void {
+        const setting = new Setting(containerEl)
+            .setName(field)
+            .addText(text => text
+                .setPlaceholder(field)
+                .setValue(this.plugin.settings.frontmatter_field_keys[field] ?? '')
+                .onChange(async (value) => {
+                    const fieldKeys = { ...this.plugin.settings.frontmatter_field_keys, [field]: value.trim() };
+                    if (!fieldKeys[field]) {
+                        delete fieldKeys[field];
+                    }
+                    this.plugin.settings.frontmatter_field_keys = fieldKeys;
+                    await this.plugin.saveSettings();
+                }));
+
+        if (isRequiredFrontmatterField(field)) {
+            return;
+        }
+
+        setting.addToggle(toggle => toggle
+            .setTooltip('Write this field')
+            .setValue(!this.plugin.settings.disabled_frontmatter_fields.includes(field))
+            .onChange(async (value) => {
+                const otherFields = this.plugin.settings.disabled_frontmatter_fields.filter(disabled => disabled !== field);
+                this.plugin.settings.disabled_frontmatter_fields = value ? otherFields : [...otherFields, field];
+                await this.plugin.saveSettings();
+            }));
+    }
+
+    private addBodyTemplateSetting(
+        containerEl: HTMLElement,
+        name: string,
+        settingKey: 'artist_body_template_path' | 'album_body_template_path' | 'track_body_template_path' | 'playlist_body_template_path',
+        placeholder: string
+    ): void {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc('Path of the template note. Leave empty to create notes without a body.')
+            .addText(text => text
+                .setPlaceholder(placeholder)
+                .setValue(this.plugin.settings[settingKey])
+                .onChange(async (value) => {
+                    this.plugin.settings[settingKey] = value.trim();
+                    await this.plugin.saveSettings();
+                }));
     }
 
     private displayPlaylistSettings(container: HTMLElement): void {
@@ -510,7 +1193,7 @@ mood:</code></pre>
         }
 
         try {
-            const playlist = await this.plugin.spotifyApi.playlists.getPlaylist(playlistId, 'US', 'name');
+            const playlist = await this.plugin.spotifyApi.playlists.getPlaylist(playlistId, USER_MARKET, 'name');
             this.plugin.settings.playlist_names[playlistId] = playlist.name;
             console.log(`Fetched playlist name: ${playlist.name} for ID: ${playlistId}`);
         } catch (error) {
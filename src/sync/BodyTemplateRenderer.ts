@@ -0,0 +1,115 @@
+import { App, moment, normalizePath } from 'obsidian';
+import { ObsidianSpotifySettings } from '../settings';
+import { Album, Artist, MusicEntity, Playlist, SimplifiedAlbum, SimplifiedArtist, SimplifiedTrack, Track } from './types';
+
+export const BODY_TEMPLATE_VARIABLES = [
+    'title', 'cover', 'cover_url', 'spotify_url', 'spotify_link', 'date',
+    'artists', 'album', 'year', 'release_date', 'track_number', 'tracklist', 'owner', 'description'
+];
+
+/**
+ * Renders the body of new notes from template notes in the vault, filling in `{{variable}}` placeholders.
+ * The frontmatter of a template is left out, since the frontmatter of new notes comes from the sync
+ * (and the default frontmatter settings).
+ */
+export class BodyTemplateRenderer {
+    constructor(
+        private app: App,
+        private settings: ObsidianSpotifySettings,
+        private generateArtistLink: (artist: SimplifiedArtist) => Promise<string>,
+        private generateAlbumLink: (album: SimplifiedAlbum) => Promise<string>,
+        private generateTrackLink: (track: SimplifiedTrack) => Promise<string>
+    ) { }
+
+    async renderArtistBody(artist: Artist): Promise<string> {
+        return this.render(this.settings.artist_body_template_path, this.getCommonVariables(artist));
+    }
+
+    async renderAlbumBody(album: Album): Promise<string> {
+        return this.render(this.settings.album_body_template_path, {
+            ...this.getCommonVariables(album),
+            artists: await this.renderArtistLinks(album.artists),
+            year: album.releaseDate?.slice(0, 4) ?? '',
+            release_date: album.releaseDate ?? '',
+            tracklist: await this.renderTracklist(album.tracks)
+        });
+    }
+
+    async renderTrackBody(track: Track): Promise<string> {
+        return this.render(this.settings.track_body_template_path, {
+            ...this.getCommonVariables(track),
+            artists: await this.renderArtistLinks(track.artists),
+            album: track.album ? await this.generateAlbumLink(track.album) : '',
+            year: track.releaseDate?.slice(0, 4) ?? '',
+            release_date: track.releaseDate ?? '',
+            track_number: track.trackNumber?.toString() ?? ''
+        });
+    }
+
+    async renderPlaylistBody(playlist: Playlist): Promise<string> {
+        return this.render(this.settings.playlist_body_template_path, {
+            ...this.getCommonVariables(playlist),
+            owner: playlist.owner ?? '',
+            description: playlist.description ?? '',
+            tracklist: await this.renderTracklist(playlist.tracks)
+        });
+    }
+
+    /**
+     * Reads the template note and fills in its variables. Unknown variables are left as they are.
+     * @returns The rendered body, or an empty string if no template is configured or it can't be found
+     */
+    private async render(templatePath: string, variables: Record<string, string>): Promise<string> {
+        if (!templatePath?.trim()) {
+            return '';
+        }
+
+        const path = normalizePath(templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`);
+        const templateFile = this.app.vault.getFileByPath(path);
+        if (!templateFile) {
+            console.warn(`Note template "${path}" not found`);
+            return '';
+        }
+
+        const template = (await this.app.vault.cachedRead(templateFile))
+            .replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '');
+
+        return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+            name in variables ? variables[name] : placeholder
+        );
+    }
+
+    private getCommonVariables(entity: MusicEntity): Record<string, string> {
+        const spotifyUrl = entity.sources.spotify ?? '';
+
+        return {
+            title: entity.title,
+            cover: this.renderCoverEmbed(entity.image),
+            cover_url: entity.image ?? '',
+            spotify_url: spotifyUrl,
+            spotify_link: spotifyUrl ? `[Open in Spotify](${spotifyUrl})` : '',
+            date: moment().format('YYYY-MM-DD')
+        };
+    }
+
+    /**
+     * Embeds the cover, which is either an image URL or a link to an image in the vault.
+     */
+    private renderCoverEmbed(image: string | undefined): string {
+        if (!image) {
+            return '';
+        }
+
+        return image.startsWith('[[') ? `!${image}` : `![](${image})`;
+    }
+
+    private async renderArtistLinks(artists: SimplifiedArtist[]): Promise<string> {
+        const artistLinks = await Promise.all(artists.map(artist => this.generateArtistLink(artist)));
+        return artistLinks.join(', ');
+    }
+
+    private async renderTracklist(tracks: SimplifiedTrack[]): Promise<string> {
+        const trackLinks = await Promise.all(tracks.map(track => this.generateTrackLink(track)));
+        return trackLinks.map((trackLink, index) => `${index + 1}. ${trackLink}`).join('\n');
+    }
+}
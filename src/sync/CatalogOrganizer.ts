@@ -0,0 +1,69 @@
+import { App, Notice } from 'obsidian';
+import { ObsidianSpotifySettings } from '../settings';
+import { FileManager } from './fileManager';
+
+/**
+ * Brings the names, folders, frontmatter keys and covers of existing catalog notes in line with the settings.
+ */
+export class CatalogOrganizer {
+    private readonly fileManager: FileManager;
+
+    constructor(
+        private app: App,
+        private settings: ObsidianSpotifySettings
+    ) {
+        this.fileManager = new FileManager(this.app, this.settings);
+    }
+
+    async renameToMatchTemplates(): Promise<void> {
+        try {
+            new Notice('Renaming notes to match the file name templates...');
+
+            const renamedCount = await this.fileManager.renameFilesToMatchTemplates();
+
+            new Notice(renamedCount > 0 ? `Renamed ${renamedCount} notes` : 'All notes already match the file name templates');
+        } catch (error) {
+            console.error('Renaming notes failed:', error);
+            new Notice('Renaming notes failed. Check console for details.');
+        }
+    }
+
+    async moveToMatchFolderLayout(): Promise<void> {
+        try {
+            new Notice('Moving notes to match the folder layout...');
+
+            const movedCount = await this.fileManager.moveFilesToMatchFolderTemplates();
+
+            new Notice(movedCount > 0 ? `Moved ${movedCount} notes` : 'All notes already match the folder layout');
+        } catch (error) {
+            console.error('Moving notes failed:', error);
+            new Notice('Moving notes failed. Check console for details.');
+        }
+    }
+
+    async migrateFrontmatterToFieldMapping(): Promise<void> {
+        try {
+            new Notice('Migrating frontmatter to the field mapping...');
+
+            const migratedCount = await this.fileManager.migrateFrontmatterToFieldMapping();
+
+            new Notice(migratedCount > 0 ? `Migrated ${migratedCount} notes` : 'All notes already match the field mapping');
+        } catch (error) {
+            console.error('Migrating frontmatter failed:', error);
+            new Notice('Migrating frontmatter failed. Check console for details.');
+        }
+    }
+
+    async downloadCoverArt(): Promise<void> {
+        try {
+            new Notice('Downloading cover art...');
+
+            const downloadedCount = await this.fileManager.downloadCoverArt();
+
+            new Notice(downloadedCount > 0 ? `Downloaded the covers of ${downloadedCount} notes` : 'All covers are already in the vault');
+        } catch (error) {
+            console.error('Downloading cover art failed:', error);
+            new Notice('Downloading cover art failed. Check console for details.');
+        }
+    }
+}
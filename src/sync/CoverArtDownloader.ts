@@ -0,0 +1,75 @@
+import { App, normalizePath, requestUrl } from 'obsidian';
+import { ObsidianSpotifySettings } from '../settings';
+
+/**
+ * Downloads cover art into the vault, so that covers keep working offline and when image URLs change.
+ * Images are named by a hash of their content, so each image is stored once, however many notes use it.
+ */
+export class CoverArtDownloader {
+    private readonly EXTENSIONS_BY_CONTENT_TYPE: Record<string, string> = {
+        'image/jpeg': 'jpg',
+        'image/png': 'png',
+        'image/webp': 'webp',
+        'image/gif': 'gif'
+    };
+
+    // Downloads by image URL, so that the tracks of an album download their shared cover once
+    private readonly downloads = new Map<string, Promise<string>>();
+
+    constructor(
+        private app: App,
+        private settings: ObsidianSpotifySettings
+    ) { }
+
+    get coverArtPath(): string {
+        return `${this.settings.music_catalog_base_path}/${this.settings.cover_art_path}`;
+    }
+
+    isRemoteImage(image: string | undefined): image is string {
+        return !!image && /^https?:\/\//i.test(image);
+    }
+
+    /**
+     * Downloads the image, unless an image with the same content is already in the vault.
+     * @returns A link to the image in the vault, e.g. "[[Music/Covers/3f2a9c0d1b7e4a65.jpg]]"
+     */
+    async download(imageUrl: string): Promise<string> {
+        let download = this.downloads.get(imageUrl);
+        if (!download) {
+            download = this.downloadImage(imageUrl);
+            this.downloads.set(imageUrl, download);
+            // Let failed downloads be retried
+            download.catch(() => this.downloads.delete(imageUrl));
+        }
+
+        return download;
+    }
+
+    private async downloadImage(imageUrl: string): Promise<string> {
+        const response = await requestUrl({ url: imageUrl });
+
+        const contentType = (response.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+        const extension = this.EXTENSIONS_BY_CONTENT_TYPE[contentType] ?? 'jpg';
+        const hash = await this.hashContent(response.arrayBuffer);
+
+        const folderPath = normalizePath(this.coverArtPath);
+        const filePath = normalizePath(`${folderPath}/${hash}.${extension}`);
+
+        if (!this.app.vault.getAbstractFileByPath(filePath)) {
+            if (!this.app.vault.getAbstractFileByPath(folderPath)) {
+                await this.app.vault.createFolder(folderPath);
+            }
+            await this.app.vault.createBinary(filePath, response.arrayBuffer);
+        }
+
+        return `[[${filePath}]]`;
+    }
+
+    private async hashContent(content: ArrayBuffer): Promise<string> {
+        const digest = await crypto.subtle.digest('SHA-256', content);
+        return Array.from(new Uint8Array(digest))
+            .slice(0, 8)
+            .map(byte => byte.toString(16).padStart(2, '0'))
+            .join('');
+    }
+}
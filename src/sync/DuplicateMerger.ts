@@ -0,0 +1,124 @@
+import { App, Notice } from 'obsidian';
+import { ObsidianSpotifySettings } from '../settings';
+import { FileManager } from './fileManager';
+import { CatalogEntityType, MusicEntity, MusicFile, MusicIds, SimplifiedAlbum, SimplifiedArtist } from './types';
+
+export interface DuplicateGroup {
+    entityType: CatalogEntityType;
+    files: MusicFile<MusicEntity>[];
+}
+
+/**
+ * Finds catalog notes that are about the same artist, album, track or playlist, and merges them into one.
+ * Notes are duplicates if they share any ID, or have near-identical titles (and primary artists).
+ * Tracks are only matched by title on the same album, and keep suffixes like "(Live)" or "- Remix" in their titles,
+ * since those are usually separate recordings.
+ */
+export class DuplicateMerger {
+    private readonly fileManager: FileManager;
+
+    constructor(
+        private app: App,
+        private settings: ObsidianSpotifySettings
+    ) {
+        this.fileManager = new FileManager(this.app, this.settings);
+    }
+
+    async findDuplicates(): Promise<DuplicateGroup[]> {
+        const catalog = await this.fileManager.getCatalog();
+
+        return catalog.flatMap(({ entityType, files }) =>
+            this.groupDuplicates(files, entityType).map(group => ({ entityType, files: group }))
+        );
+    }
+
+    /**
+     * Merges the other notes of a group into the chosen note, which keeps its name and location.
+     * Pass a group with only some of its files to leave the rest alone.
+     */
+    async merge(group: DuplicateGroup, survivor: MusicFile<MusicEntity>): Promise<void> {
+        try {
+            const duplicates = group.files.filter(file => file !== survivor);
+            await this.fileManager.mergeFiles(survivor, duplicates);
+
+            new Notice(`Merged ${duplicates.length} notes into "${survivor.file.basename}"`);
+        } catch (error) {
+            console.error('Merging duplicates failed:', error);
+            new Notice('Merging duplicates failed. Check console for details.');
+        }
+    }
+
+    /**
+     * Groups files that share a match key, including files only connected through other files of the group.
+     */
+    private groupDuplicates(files: MusicFile<MusicEntity>[], entityType: CatalogEntityType): MusicFile<MusicEntity>[][] {
+        const groupIds = files.map((_, index) => index);
+        const findGroup = (index: number): number => {
+            while (groupIds[index] !== index) {
+                index = groupIds[index];
+            }
+            return index;
+        };
+
+        const firstFileByKey = new Map<string, number>();
+        files.forEach((file, index) => {
+            this.getMatchKeys(file, entityType).forEach(key => {
+                const firstIndex = firstFileByKey.get(key);
+                if (firstIndex === undefined) {
+                    firstFileByKey.set(key, index);
+                } else {
+                    groupIds[findGroup(index)] = findGroup(firstIndex);
+                }
+            });
+        });
+
+        const groups = new Map<number, MusicFile<MusicEntity>[]>();
+        files.forEach((file, index) => {
+            const groupId = findGroup(index);
+            groups.set(groupId, [...groups.get(groupId) ?? [], file]);
+        });
+
+        return Array.from(groups.values()).filter(group => group.length > 1);
+    }
+
+    private getMatchKeys(file: MusicFile<MusicEntity>, entityType: CatalogEntityType): string[] {
+        const ids: MusicIds = file.ids ?? {};
+        const idKeys = Object.entries(ids)
+            .filter(([_, id]) => !!id)
+            .map(([idType, id]) => `${idType}:${id}`);
+
+        const isTrack = entityType === 'track';
+        const title = this.normalizeTitle(file.title, !isTrack);
+        if (!title) {
+            return idKeys;
+        }
+
+        const artists = (file as { artists?: SimplifiedArtist[] }).artists;
+        const primaryArtist = artists?.[0] ? this.normalizeTitle(artists[0].title) : '';
+        const album = isTrack ? (file as { album?: SimplifiedAlbum | null }).album : undefined;
+        const albumTitle = album ? this.normalizeTitle(album.title) : '';
+
+        return [...idKeys, `title:${title}|${primaryArtist}|${albumTitle}`];
+    }
+
+    /**
+     * Reduces a title to what is left after ignoring case, accents and punctuation, so that near-identical titles match.
+     * @param ignoreSuffixes Also ignore bracketed suffixes like "(Deluxe Edition)" or "[Remastered]", and "- … Version" suffixes
+     */
+    private normalizeTitle(title: string | undefined, ignoreSuffixes = true): string {
+        let normalized = (title ?? '')
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase();
+
+        if (ignoreSuffixes) {
+            normalized = normalized
+                .replace(/\s*[([][^)\]]*[)\]]/g, '')
+                .replace(/\s+-\s+.*\b(remaster(ed)?|version|edition|mono|stereo)\b.*$/, '');
+        }
+
+        return normalized
+            .replace(/[\s!-/:-@[-`{-~]+/g, ' ')
+            .trim();
+    }
+}
@@ -0,0 +1,98 @@
+import { Album, CatalogEntityType, MusicEntity, Playlist, Track } from './types';
+
+/**
+ * The values that can be used in a file name or folder template, e.g. "{title} - {artist}"
+ */
+export interface FileNameTokens {
+    title?: string;
+    artist?: string;
+    album?: string;
+    year?: string;
+    track_number?: string;
+    spotify_id?: string;
+}
+
+export const FILE_NAME_TOKEN_NAMES: (keyof FileNameTokens)[] = ['title', 'artist', 'album', 'year', 'track_number', 'spotify_id'];
+
+/**
+ * Example tokens for previewing templates in the settings
+ */
+export const SAMPLE_FILE_NAME_TOKENS: Record<CatalogEntityType, FileNameTokens> = {
+    artist: { title: 'Radiohead', artist: 'Radiohead', spotify_id: '4Z8W4fKeB5YxbusRsdQVPb' },
+    album: { title: 'OK Computer', artist: 'Radiohead', album: 'OK Computer', year: '1997', spotify_id: '6dVIqQ8qmQ5GBnJ9shOYGE' },
+    track: { title: 'Paranoid Android', artist: 'Radiohead', album: 'OK Computer', year: '1997', track_number: '02', spotify_id: '6LgJvl0Xdtc73RJ1mmpotq' },
+    playlist: { title: 'Road Trip', artist: 'Jane', spotify_id: '37i9dQZF1DXcBWIGoYBM5M' },
+};
+
+export function getFileNameTokens(entityType: CatalogEntityType, entity: MusicEntity): FileNameTokens {
+    const { artists, album, releaseDate, trackNumber } = entity as Partial<Album & Track>;
+    const { owner } = entity as Partial<Playlist>;
+
+    const tokens: FileNameTokens = {
+        title: entity.title,
+        year: releaseDate ? String(releaseDate).slice(0, 4) : undefined,
+        spotify_id: entity.ids?.spotify_id
+    };
+
+    switch (entityType) {
+        case 'artist':
+            return { ...tokens, artist: entity.title };
+        case 'album':
+            return { ...tokens, artist: artists?.[0]?.title, album: entity.title };
+        case 'track':
+            return {
+                ...tokens,
+                artist: artists?.[0]?.title,
+                album: album?.title,
+                track_number: trackNumber ? String(trackNumber).padStart(2, '0') : undefined
+            };
+        case 'playlist':
+            return { ...tokens, artist: owner };
+    }
+}
+
+/**
+ * Fills in a file name template, leaving out the " - " separators around tokens that have no value,
+ * and removing characters that aren't allowed in file names or links.
+ * @example renderFileName("{title} - {album} - {artist}", { title: "Song", artist: "Artist" }) => "Song - Artist"
+ */
+export function renderFileName(template: string, tokens: FileNameTokens): string {
+    return fillTemplate(template, tokens) || sanitizeFileNamePart(tokens.title ?? '') || 'Untitled';
+}
+
+/**
+ * Fills in a folder template one folder at a time, leaving out folders whose tokens have no value.
+ * @example renderFolderPath("{artist}/{year}", { artist: "Artist" }) => "Artist"
+ */
+export function renderFolderPath(template: string, tokens: FileNameTokens): string {
+    return template
+        .split('/')
+        .map(folderTemplate => fillTemplate(folderTemplate, tokens))
+        .filter(folderName => !!folderName)
+        .join('/');
+}
+
+function fillTemplate(template: string, tokens: FileNameTokens): string {
+    const rendered = template.replace(/\{(\w+)\}/g, (token, name: string) =>
+        FILE_NAME_TOKEN_NAMES.includes(name as keyof FileNameTokens)
+            ? sanitizeFileNamePart(tokens[name as keyof FileNameTokens] ?? '')
+            : token
+    );
+
+    const name = rendered
+        .replace(/\(\s*\)|\[\s*\]/g, '')
+        .split(/\s+-(?=\s)/)
+        .map(part => part.trim())
+        .filter(part => !!part && part !== '-')
+        .join(' - ')
+        .replace(/^[\s-]+|[\s.-]+$/g, '');
+
+    return sanitizeFileNamePart(name);
+}
+
+function sanitizeFileNamePart(text: string): string {
+    return text
+        .replace(/[\\/:*?"<>|#^[\]]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
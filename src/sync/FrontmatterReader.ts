@@ -1,10 +1,15 @@
 import { App, TFile } from 'obsidian';
-import { MusicIds, SimplifiedArtist, SimplifiedAlbum, Artist, Album, Track, MusicSources } from "./types";
+import { MusicIds, SimplifiedArtist, SimplifiedAlbum, SimplifiedPlaylist, SimplifiedTrack, Artist, Album, Track, Playlist, MusicSources } from "./types";
 import { MusicFrontmatter } from './frontmatterTypes';
 import { MusicFile } from './types';
+import { FrontmatterSchema } from './FrontmatterSchema';
+import { parseTracklistTitle } from './Tracklist';
 
 export class FrontmatterReader {
-    constructor(private app: App) { }
+    constructor(
+        private app: App,
+        private schema: FrontmatterSchema
+    ) { }
 
     parseArtistFile(file: TFile): MusicFile<Artist> | undefined {
         const frontmatter = this.extractFrontmatter(file);
@@ -16,6 +21,8 @@ export class FrontmatterReader {
             title: frontmatter.title ?? "",
             ids: this.extractMusicIds(frontmatter),
             sources: this.extractMusicSources(frontmatter),
+            genres: frontmatter.genres,
+            popularity: frontmatter.popularity,
             file: file,
         };
     }
@@ -31,7 +38,13 @@ export class FrontmatterReader {
             ids: this.extractMusicIds(frontmatter),
             sources: this.extractMusicSources(frontmatter),
             artists: this.parseArtistLinks(frontmatter.artists ?? []),
-            tracks: frontmatter.tracks?.map(title => ({ title, ids: {} })) ?? [],
+            tracks: frontmatter.tracks?.map(trackStr => this.parseTracklistEntry(trackStr)) ?? [],
+            releaseDate: frontmatter.release_date,
+            albumType: frontmatter.album_type,
+            label: frontmatter.label,
+            genres: frontmatter.genres,
+            popularity: frontmatter.popularity,
+            copyrights: frontmatter.copyrights,
             file: file
         };
     }
@@ -48,17 +61,49 @@ export class FrontmatterReader {
             sources: this.extractMusicSources(frontmatter),
             artists: this.parseArtistLinks(frontmatter.artists ?? []),
             album: frontmatter.album ? this.parseAlbumLink(frontmatter.album) : undefined,
+            playlists: frontmatter.playlists?.map(playlistStr => this.parsePlaylistLink(playlistStr)),
+            releaseDate: frontmatter.release_date,
+            trackNumber: frontmatter.track_number,
+            discNumber: frontmatter.disc_number,
+            durationMs: frontmatter.duration_seconds !== undefined ? frontmatter.duration_seconds * 1000 : undefined,
+            explicit: frontmatter.explicit,
+            popularity: frontmatter.popularity,
             file: file
         };
     }
 
+    parsePlaylistFile(file: TFile): MusicFile<Playlist> | undefined {
+        const frontmatter = this.extractFrontmatter(file);
+        if (!frontmatter) {
+            return undefined;
+        }
+
+        return {
+            title: frontmatter.title ?? "",
+            ids: this.extractMusicIds(frontmatter),
+            sources: this.extractMusicSources(frontmatter),
+            owner: frontmatter.owner,
+            description: frontmatter.description,
+            snapshotId: frontmatter.snapshot_id,
+            tracks: frontmatter.tracks?.map(trackStr => this.parseTrackLink(trackStr)) ?? [],
+            file: file
+        };
+    }
+
+    /**
+     * @returns The cover of the note, either an image URL or a link to an image in the vault
+     */
+    getCover(file: TFile): string | undefined {
+        return this.extractFrontmatter(file)?.cover;
+    }
+
     private extractFrontmatter(file: TFile): MusicFrontmatter | undefined {
         const metadata = this.app.metadataCache.getFileCache(file);
         if (!metadata?.frontmatter) {
             throw new Error("Metadata cache not yet initialized.");
         }
 
-        return Object.assign(new MusicFrontmatter(), metadata.frontmatter);
+        return Object.assign(new MusicFrontmatter(), this.schema.toFields(metadata.frontmatter));
     }
 
     private extractMusicIds(frontmatter: MusicFrontmatter): MusicIds {
@@ -114,6 +159,61 @@ export class FrontmatterReader {
         };
     }
 
+    /**
+     * Parse track link into SimplifiedTrack object
+     * Only the IDs of the linked file are read, since track files link back to their playlists
+     */
+    private parseTrackLink(trackStr: string): SimplifiedTrack {
+        return this.parseEntityLink(trackStr);
+    }
+
+    /**
+     * Parse an album tracklist entry, a track link or title labelled with its position, into a SimplifiedTrack object
+     * Only the IDs of the linked file are read, like other track links
+     */
+    private parseTracklistEntry(trackStr: string): SimplifiedTrack {
+        const displayText = this.extractDisplayText(trackStr);
+        const { title, trackNumber, discNumber } = parseTracklistTitle(displayText);
+        const linkedTrack = this.parseEntityLink(trackStr);
+
+        return {
+            // The title of the linked note, unless it only has the labelled display text
+            title: linkedTrack.title !== displayText ? linkedTrack.title : title,
+            ids: linkedTrack.ids,
+            trackNumber,
+            discNumber
+        };
+    }
+
+    /**
+     * Parse playlist link into SimplifiedPlaylist object
+     * Only the IDs of the linked file are read, since playlist files link back to their tracks
+     */
+    private parsePlaylistLink(playlistStr: string): SimplifiedPlaylist {
+        return this.parseEntityLink(playlistStr);
+    }
+
+    /**
+     * Resolve a link to another music file and read its title and IDs,
+     * without following any of the links in that file
+     */
+    private parseEntityLink(text: string): { title: string, ids: MusicIds } {
+        const linkedFile = this.resolveMarkdownLink(text);
+        const linkedFrontmatter = linkedFile && this.extractFrontmatter(linkedFile);
+
+        if (linkedFrontmatter) {
+            return {
+                title: linkedFrontmatter.title ?? this.extractDisplayText(text),
+                ids: this.extractMusicIds(linkedFrontmatter)
+            };
+        }
+
+        return {
+            title: this.extractDisplayText(text),
+            ids: {}
+        };
+    }
+
     /**
      * Extract display text from a markdown link or plain text
      * [[path|Display Text]] -> "Display Text"
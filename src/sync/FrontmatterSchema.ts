@@ -0,0 +1,177 @@
+import { isPlainObject } from 'src/utils';
+import { MusicFrontmatter } from './frontmatterTypes';
+
+/**
+ * The frontmatter fields written by the plugin, named by their path in `MusicFrontmatter`, e.g. `music_ids.spotify_id`
+ */
+export const FRONTMATTER_FIELDS: string[] = getFieldPaths(new MusicFrontmatter());
+
+/**
+ * Whether a field can't be disabled, because notes are matched to the library by it,
+ * or because edits to it are pushed to the library (see `SyncEngine.findLibraryStatusChanges`).
+ */
+export function isRequiredFrontmatterField(field: string): boolean {
+    return field.startsWith('music_ids.') || field === 'music_sources.in_library' || field === 'title';
+}
+
+/**
+ * Maps between the fields of `MusicFrontmatter` and the keys they are stored under in notes.
+ * A field can be renamed (e.g. `cover` to `image`), moved out of or into a nested object
+ * (e.g. `music_ids.spotify_id` to `spotify_id`), or disabled, in which case its key is neither read nor written.
+ * Properties that aren't plugin fields are passed through as they are.
+ */
+export class FrontmatterSchema {
+    // The top level keys of the stored fields, which aren't passed through as other properties
+    private readonly storedRootKeys: Set<string>;
+    // The top level keys of `MusicFrontmatter`, which are only read from their stored keys
+    private readonly fieldRootKeys = new Set(FRONTMATTER_FIELDS.map(field => field.split('.')[0]));
+
+    constructor(
+        private fieldKeys: Record<string, string>,
+        private disabledFields: string[]
+    ) {
+        this.storedRootKeys = new Set(
+            FRONTMATTER_FIELDS
+                .map(field => this.getKey(field))
+                .filter((key): key is string => !!key)
+                .map(key => key.split('.')[0])
+        );
+    }
+
+    /**
+     * @returns The key a field is stored under, or undefined if the field is disabled
+     */
+    getKey(field: string): string | undefined {
+        if (this.disabledFields.includes(field) && !isRequiredFrontmatterField(field)) {
+            return undefined;
+        }
+
+        return this.fieldKeys[field]?.trim() || field;
+    }
+
+    /**
+     * Reads stored frontmatter into the shape of `MusicFrontmatter`.
+     * Fields missing from their own key are read from their default key, so that notes written before
+     * a key was changed keep working until they are migrated.
+     */
+    toFields(stored: Record<string, unknown>): Record<string, unknown> {
+        const fields: Record<string, unknown> = {};
+
+        Object.entries(stored).forEach(([key, value]) => {
+            if (!this.storedRootKeys.has(key) && !this.fieldRootKeys.has(key)) {
+                fields[key] = value;
+            }
+        });
+
+        FRONTMATTER_FIELDS.forEach(field => {
+            const key = this.getKey(field);
+            if (!key) {
+                return;
+            }
+
+            const value = getPath(stored, key) ?? getPath(stored, field);
+            if (value !== undefined) {
+                setPath(fields, field, value);
+            }
+        });
+
+        return fields;
+    }
+
+    /**
+     * Writes frontmatter in the shape of `MusicFrontmatter` back to the stored frontmatter, in place.
+     * Properties that are no longer in the fields are removed, except for keys that belong to disabled or moved fields.
+     * @param removeDefaultKeys Remove the default keys of moved fields, for migrating notes
+     */
+    writeFields(fields: Record<string, unknown>, stored: Record<string, unknown>, removeDefaultKeys = false): void {
+        Object.keys(stored).forEach(key => {
+            if (!this.storedRootKeys.has(key) && !this.fieldRootKeys.has(key) && !(key in fields)) {
+                delete stored[key];
+            }
+        });
+        Object.entries(fields).forEach(([key, value]) => {
+            if (!this.fieldRootKeys.has(key)) {
+                stored[key] = value;
+            }
+        });
+
+        const storedKeys = new Set(FRONTMATTER_FIELDS.map(field => this.getKey(field)));
+        FRONTMATTER_FIELDS.forEach(field => {
+            const key = this.getKey(field);
+            if (!key) {
+                return;
+            }
+
+            const value = getPath(fields, field);
+            if (value === undefined) {
+                deletePath(stored, key);
+            } else {
+                setPath(stored, key, value);
+            }
+
+            if (removeDefaultKeys && key !== field && !storedKeys.has(field)) {
+                deletePath(stored, field);
+            }
+        });
+    }
+
+    /**
+     * Whether any enabled field is still stored under its default key instead of the key it was moved to.
+     */
+    hasFieldsAtDefaultKeys(stored: Record<string, unknown>): boolean {
+        const storedKeys = new Set(FRONTMATTER_FIELDS.map(field => this.getKey(field)));
+
+        return FRONTMATTER_FIELDS.some(field => {
+            const key = this.getKey(field);
+            return !!key && key !== field && !storedKeys.has(field) && getPath(stored, field) !== undefined;
+        });
+    }
+}
+
+function getFieldPaths(frontmatter: object, prefix = ''): string[] {
+    return Object.entries(frontmatter).flatMap(([key, value]) =>
+        isPlainObject(value) ? getFieldPaths(value, `${prefix}${key}.`) : [`${prefix}${key}`]
+    );
+}
+
+function getPath(object: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (value, key) => isPlainObject(value) ? value[key] : undefined,
+        object
+    );
+}
+
+function setPath(object: Record<string, unknown>, path: string, value: unknown): void {
+    const keys = path.split('.');
+    const leafKey = keys.pop() as string;
+
+    let parent = object;
+    keys.forEach(key => {
+        if (!isPlainObject(parent[key])) {
+            parent[key] = {};
+        }
+        parent = parent[key] as Record<string, unknown>;
+    });
+
+    parent[leafKey] = value;
+}
+
+/**
+ * Deletes the value at the path, and any objects left empty by it.
+ */
+function deletePath(object: Record<string, unknown>, path: string): void {
+    const [key, ...rest] = path.split('.');
+
+    if (rest.length === 0) {
+        delete object[key];
+        return;
+    }
+
+    const child = object[key];
+    if (isPlainObject(child)) {
+        deletePath(child, rest.join('.'));
+        if (Object.keys(child).length === 0) {
+            delete object[key];
+        }
+    }
+}
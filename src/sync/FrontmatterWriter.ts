@@ -1,11 +1,18 @@
-import { App, moment, parseYaml } from 'obsidian';
+import { App, TFile, moment, parseYaml } from 'obsidian';
 import { ObsidianSpotifySettings } from '../settings';
-import { MusicFrontmatter } from './frontmatterTypes';
-import { Track, Album, Artist, SimplifiedArtist, SimplifiedAlbum } from "./types";
+import { MusicFrontmatter, TopRankFrontmatter } from './frontmatterTypes';
+import { Track, Album, Artist, Playlist, PlayStats, MusicEntity, SimplifiedArtist, SimplifiedAlbum, SimplifiedTrack, SimplifiedPlaylist } from "./types";
 import { MusicFile } from './types';
-import { removeNullish } from 'src/utils';
+import { isPlainObject, removeNullish } from 'src/utils';
+import { TopItemsTimeRange } from './music-sources/MusicLibrarySource';
+import { FieldChange, diffFrontmatter } from './SyncPlan';
+import { SyncJournal } from './SyncJournal';
+import { FrontmatterSchema } from './FrontmatterSchema';
+import { formatTracklistTitle, isMultiDisc } from './Tracklist';
 
 export class FrontmatterWriter {
+    private readonly REMOVED_TAG = 'removed-from-library';
+
     // User-specified frontmatter that is appended when creating new files
     private defaultArtistFrontmatter = this.parseDefaultFrontmatter(this.settings.default_artist_frontmatter);
     private defaultAlbumFrontmatter = this.parseDefaultFrontmatter(this.settings.default_album_frontmatter);
@@ -14,16 +21,42 @@ export class FrontmatterWriter {
     constructor(
         private app: App,
         private settings: ObsidianSpotifySettings,
+        private schema: FrontmatterSchema,
         private generateArtistLink: (artist: SimplifiedArtist) => Promise<string>,
-        private generateAlbumLink: (album: SimplifiedAlbum) => Promise<string>
+        private generateAlbumLink: (album: SimplifiedAlbum) => Promise<string>,
+        private generateTrackLink: (track: SimplifiedTrack) => Promise<string>,
+        private generatePlaylistLink: (playlist: SimplifiedPlaylist) => Promise<string>,
+        private journal?: SyncJournal
     ) { }
 
+    // When set, changes are recorded here by file path instead of being written (see `FileManager.startPlanning`)
+    private recordedChanges?: Map<string, FieldChange[]>;
+
+    /**
+     * Starts or stops recording frontmatter changes instead of writing them.
+     */
+    setDryRun(dryRun: boolean): void {
+        this.recordedChanges = dryRun ? new Map() : undefined;
+    }
+
+    /**
+     * Returns the changes recorded for the file since this was last called for it.
+     */
+    takeRecordedChanges(file: TFile): FieldChange[] {
+        const changes = this.recordedChanges?.get(file.path) ?? [];
+        this.recordedChanges?.delete(file.path);
+        return changes;
+    }
+
     async updateArtistFrontmatter(artist: MusicFile<Artist>): Promise<void> {
-        await this.app.fileManager.processFrontMatter(artist.file, (fmOriginal) => {
+        await this.processFrontMatter(artist.file, (fmOriginal) => {
             const fm: MusicFrontmatter = Object.assign(new MusicFrontmatter(), fmOriginal);
 
             this.updateCommonFrontmatter(fm, artist);
 
+            fm.genres = artist.genres?.length ? artist.genres : fm.genres;
+            fm.popularity = artist.popularity ?? fm.popularity;
+
             this.finalizeFrontmatter(
                 fmOriginal,
                 fm,
@@ -37,14 +70,27 @@ export class FrontmatterWriter {
         const artistLinks = await Promise.all(
             album.artists.map(artist => this.generateArtistLink(artist))
         );
+        // Tracks are listed in album order, linking to the track notes that exist
+        const multiDisc = isMultiDisc(album.tracks ?? []);
+        const trackLinks = await Promise.all(
+            (album.tracks ?? []).map((track, index) =>
+                this.generateTrackLink({ ...track, title: formatTracklistTitle(track, index + 1, multiDisc) })
+            )
+        );
 
-        await this.app.fileManager.processFrontMatter(album.file, (fmOriginal) => {
+        await this.processFrontMatter(album.file, (fmOriginal) => {
             const fm = Object.assign(new MusicFrontmatter(), fmOriginal);
 
             this.updateCommonFrontmatter(fm, album);
 
             fm.artists = artistLinks;
-            fm.tracks = fm.tracks ?? album.tracks?.map(track => track.title);
+            fm.tracks = trackLinks.length > 0 ? trackLinks : fm.tracks;
+            fm.release_date = album.releaseDate ?? fm.release_date;
+            fm.album_type = album.albumType ?? fm.album_type;
+            fm.label = album.label || fm.label;
+            fm.genres = album.genres?.length ? album.genres : fm.genres;
+            fm.popularity = album.popularity ?? fm.popularity;
+            fm.copyrights = album.copyrights?.length ? album.copyrights : fm.copyrights;
 
             this.finalizeFrontmatter(
                 fmOriginal,
@@ -60,14 +106,26 @@ export class FrontmatterWriter {
         const artistLinks = await Promise.all(
             track.artists.map(artist => this.generateArtistLink(artist))
         );
+        const playlistLinks = track.playlists && await Promise.all(
+            track.playlists.map(playlist => this.generatePlaylistLink(playlist))
+        );
 
-        await this.app.fileManager.processFrontMatter(track.file, (fmOriginal) => {
+        await this.processFrontMatter(track.file, (fmOriginal) => {
             const fm = Object.assign(new MusicFrontmatter(), fmOriginal);
 
             this.updateCommonFrontmatter(fm, track);
 
             fm.album = albumLink;
             fm.artists = artistLinks;
+            fm.release_date = track.releaseDate ?? fm.release_date;
+            fm.track_number = track.trackNumber ?? fm.track_number;
+            fm.disc_number = track.discNumber ?? fm.disc_number;
+            fm.duration_seconds = track.durationMs !== undefined ? Math.round(track.durationMs / 1000) : fm.duration_seconds;
+            fm.explicit = track.explicit ?? fm.explicit;
+            fm.popularity = track.popularity ?? fm.popularity;
+            if (playlistLinks) {
+                fm.playlists = playlistLinks.length > 0 ? playlistLinks : undefined;
+            }
 
             this.finalizeFrontmatter(
                 fmOriginal,
@@ -78,9 +136,246 @@ export class FrontmatterWriter {
         });
     }
 
+    async updatePlaylistFrontmatter(playlist: MusicFile<Playlist>): Promise<void> {
+        const trackLinks = await Promise.all(
+            playlist.tracks.map(track => this.generateTrackLink(track))
+        );
+
+        await this.processFrontMatter(playlist.file, (fmOriginal) => {
+            const fm = Object.assign(new MusicFrontmatter(), fmOriginal);
+
+            this.updateCommonFrontmatter(fm, playlist);
+
+            // Playlists are edited on the streaming service, so always take the latest details
+            fm.owner = playlist.owner ?? fm.owner;
+            fm.description = playlist.description || undefined;
+            fm.snapshot_id = playlist.snapshotId ?? fm.snapshot_id;
+            fm.tracks = trackLinks;
+
+            this.finalizeFrontmatter(
+                fmOriginal,
+                fm,
+                playlist.addedAt,
+                {}
+            );
+        });
+    }
+
+    async updatePlayStatsFrontmatter(entity: MusicFile<MusicEntity>, stats: PlayStats): Promise<void> {
+        await this.processFrontMatter(entity.file, (fmOriginal) => {
+            const fm = Object.assign(new MusicFrontmatter(), fmOriginal);
+
+            fm.play_count = stats.playCount;
+            fm.first_played = stats.firstPlayed?.format("YYYY-MM-DD");
+            fm.last_played = stats.lastPlayed?.format("YYYY-MM-DD");
+            fm.listening_minutes = Math.round(stats.msPlayed / 60000);
+
+            this.finalizeFrontmatter(
+                fmOriginal,
+                fm,
+                entity.addedAt,
+                {}
+            );
+        });
+    }
+
+    async updateLibraryStatusFrontmatter(entity: MusicFile<MusicEntity>, inLibrary: boolean): Promise<void> {
+        await this.processFrontMatter(entity.file, (fm) => {
+            fm.music_sources = {
+                ...fm.music_sources,
+                in_library: inLibrary
+            };
+        });
+    }
+
+    /**
+     * Lists the releases of the artist, oldest first, labelled with their year (and type, if not an album).
+     */
+    async updateDiscographyFrontmatter(artist: MusicFile<Artist>, albums: Album[]): Promise<void> {
+        const sortedAlbums = [...albums].sort((a, b) => (a.releaseDate ?? '').localeCompare(b.releaseDate ?? ''));
+        const albumLinks = await Promise.all(sortedAlbums.map(album => {
+            const details = [album.releaseDate?.slice(0, 4), album.albumType !== 'album' ? album.albumType : undefined]
+                .filter(detail => !!detail);
+            const title = details.length > 0 ? `${album.title} (${details.join(', ')})` : album.title;
+            return this.generateAlbumLink({ ...album, title });
+        }));
+
+        await this.processFrontMatter(artist.file, (fm) => {
+            fm.discography = albumLinks;
+        });
+    }
+
+    async updateCoverFrontmatter(file: TFile, cover: string): Promise<void> {
+        await this.processFrontMatter(file, (fm) => {
+            fm.cover = cover;
+        });
+    }
+
+    /**
+     * Marks the entity as removed from the library according to the removal policy,
+     * or clears the marks of every policy once it is back in the library.
+     */
+    async updateRemovalFrontmatter(
+        entity: MusicFile<MusicEntity>,
+        removed: boolean,
+        policy: ObsidianSpotifySettings['removal_policy']
+    ): Promise<void> {
+        await this.processFrontMatter(entity.file, (fm) => {
+            const tags = this.parseTags(fm.tags);
+
+            if (!removed) {
+                delete fm.removed_at;
+                if (tags.includes(this.REMOVED_TAG)) {
+                    const remainingTags = tags.filter(tag => tag !== this.REMOVED_TAG);
+                    if (remainingTags.length > 0) {
+                        fm.tags = remainingTags;
+                    } else {
+                        delete fm.tags;
+                    }
+                }
+            } else if (policy === 'tag' && !tags.includes(this.REMOVED_TAG)) {
+                fm.tags = [...tags, this.REMOVED_TAG];
+            } else if (policy === 'removed_at') {
+                fm.removed_at = fm.removed_at ?? moment().format("YYYY-MM-DD");
+            }
+        });
+    }
+
+    /**
+     * Folds the frontmatter of duplicate notes into the note that replaces them.
+     * Nested fields (like `music_ids`) and lists are combined, and fields the note doesn't have are copied over;
+     * otherwise the note's own values win. The earliest created date is kept, and the entity is in the library if any duplicate was.
+     */
+    async mergeFrontmatter(file: TFile, storedDuplicateFrontmatters: Record<string, unknown>[]): Promise<void> {
+        const duplicateFrontmatters = storedDuplicateFrontmatters.map(frontmatter => this.schema.toFields(frontmatter));
+
+        await this.processFrontMatter(file, (fm) => {
+            const inLibrary = [fm, ...duplicateFrontmatters].some(frontmatter =>
+                isPlainObject(frontmatter.music_sources) && frontmatter.music_sources.in_library === true
+            );
+            const createdDates = [fm, ...duplicateFrontmatters]
+                .map(frontmatter => frontmatter.created)
+                .filter((created): created is string => typeof created === 'string' && !!created)
+                .sort();
+
+            const merged: Record<string, unknown> = fm;
+            duplicateFrontmatters.forEach(duplicate => {
+                Object.entries(duplicate).forEach(([field, value]) => {
+                    merged[field] = this.mergeFrontmatterValue(merged[field], value);
+                });
+            });
+
+            fm.created = createdDates[0] ?? fm.created;
+            fm.music_sources = { ...fm.music_sources, in_library: inLibrary };
+        });
+    }
+
+    private mergeFrontmatterValue(value: unknown, duplicateValue: unknown): unknown {
+        if (value === undefined || value === null || value === '') {
+            return duplicateValue;
+        }
+
+        if (Array.isArray(value) && Array.isArray(duplicateValue)) {
+            const existing = new Set(value.map(item => JSON.stringify(item)));
+            return [...value, ...duplicateValue.filter(item => !existing.has(JSON.stringify(item)))];
+        }
+
+        if (isPlainObject(value) && isPlainObject(duplicateValue)) {
+            const fields = new Set([...Object.keys(value), ...Object.keys(duplicateValue)]);
+            return Object.fromEntries(Array.from(fields).map(field =>
+                [field, this.mergeFrontmatterValue(value[field], duplicateValue[field])]
+            ));
+        }
+
+        return value;
+    }
+
+    /**
+     * Records the entity's top item ranks on the given date, replacing any ranks already recorded for that date.
+     */
+    async updateTopRankFrontmatter(
+        entity: MusicFile<MusicEntity>,
+        date: moment.Moment,
+        ranks: Partial<Record<TopItemsTimeRange, number>>
+    ): Promise<void> {
+        const dateString = date.format("YYYY-MM-DD");
+
+        await this.processFrontMatter(entity.file, (fmOriginal) => {
+            const fm = Object.assign(new MusicFrontmatter(), fmOriginal);
+
+            const entry: TopRankFrontmatter = { date: dateString, ...removeNullish(ranks) };
+            fm.top_rank_history = [
+                ...(fm.top_rank_history ?? []).filter((existing: TopRankFrontmatter) => existing.date !== dateString),
+                entry
+            ].sort((a: TopRankFrontmatter, b: TopRankFrontmatter) => a.date.localeCompare(b.date));
+
+            this.finalizeFrontmatter(
+                fmOriginal,
+                fm,
+                entity.addedAt,
+                {}
+            );
+        });
+    }
+
+    /**
+     * Moves the fields of the note from their default keys to the keys set in the field mapping.
+     * @returns Whether the note had fields to move
+     */
+    async migrateFrontmatter(file: TFile): Promise<boolean> {
+        const current = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+        if (!this.schema.hasFieldsAtDefaultKeys(current)) {
+            return false;
+        }
+
+        await this.processFrontMatter(file, () => { }, true);
+        return true;
+    }
+
+    /**
+     * Updates the frontmatter in the shape of `MusicFrontmatter`, whatever keys its fields are stored under.
+     * @param migrate Remove the default keys of fields once they are moved to their own keys
+     */
+    private async processFrontMatter(
+        file: TFile,
+        updateFrontmatter: (frontmatter: Partial<MusicFrontmatter>) => void,
+        migrate = false
+    ): Promise<void> {
+        const updateStoredFrontmatter = (stored: Record<string, unknown>) => {
+            const fields = this.schema.toFields(stored);
+            updateFrontmatter(fields);
+            this.schema.writeFields(fields, stored, migrate);
+        };
+
+        if (!this.recordedChanges) {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                const before = structuredClone(frontmatter);
+                updateStoredFrontmatter(frontmatter);
+                this.journal?.recordFrontmatterChange(file.path, before, frontmatter);
+            });
+            return;
+        }
+
+        const current = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+        const updated = structuredClone(current);
+        updateStoredFrontmatter(updated);
+
+        // The modified date only changes because other fields do
+        const changes = diffFrontmatter(current, updated).filter(change => change.field !== 'modified');
+        this.recordedChanges.set(file.path, [...this.recordedChanges.get(file.path) ?? [], ...changes]);
+    }
+
+    /**
+     * Tags can be written as a list, or as a single comma or space separated string.
+     */
+    private parseTags(tags: string[] | string | undefined): string[] {
+        const tagList = Array.isArray(tags) ? tags.map(String) : (tags ?? '').split(/[,\s]+/);
+        return tagList.filter(tag => !!tag);
+    }
+
     private updateCommonFrontmatter(
         fm: MusicFrontmatter,
-        entity: MusicFile<Track | Album | Artist>
+        entity: MusicFile<Track | Album | Artist | Playlist>
     ): void {
         fm.title = fm.title ?? entity.title;
         fm.cover = fm.cover ?? entity.image;
@@ -0,0 +1,102 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { ObsidianSpotifySettings } from '../settings';
+
+interface DailyNotesOptions {
+    folder?: string;
+    format?: string;
+}
+
+// The core plugin settings are not part of the public API
+interface AppWithInternalPlugins {
+    internalPlugins?: {
+        getPluginById?(id: string): { instance?: { options?: DailyNotesOptions } } | undefined;
+    };
+}
+
+/**
+ * Appends plays to listening log notes, either one note per day in the catalog,
+ * or a "Listening Log" section of the daily note.
+ */
+export class ListeningLogWriter {
+    private readonly LOG_HEADING = '## Listening Log';
+
+    constructor(
+        private app: App,
+        private settings: ObsidianSpotifySettings
+    ) { }
+
+    get logPath(): string {
+        return `${this.settings.music_catalog_base_path}/${this.settings.listening_log_path}`;
+    }
+
+    /**
+     * Appends log lines to the log note for the given day, creating the note if needed.
+     */
+    async appendToLog(day: moment.Moment, lines: string[]): Promise<void> {
+        if (lines.length === 0) {
+            return;
+        }
+
+        const file = await this.getOrCreateLogFile(day);
+
+        await this.app.vault.process(file, content => this.insertIntoLogSection(content, lines));
+    }
+
+    private async getOrCreateLogFile(day: moment.Moment): Promise<TFile> {
+        const filePath = this.settings.listening_log_target === 'daily-note'
+            ? this.getDailyNotePath(day)
+            : normalizePath(`${this.logPath}/${day.format('YYYY-MM-DD')}.md`);
+
+        const existing = this.app.vault.getFileByPath(filePath);
+        if (existing) {
+            return existing;
+        }
+
+        const folderPath = filePath.split('/').slice(0, -1).join('/');
+        if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+
+        return await this.app.vault.create(filePath, '');
+    }
+
+    /**
+     * Resolves the daily note path from the settings of the core Daily Notes plugin.
+     */
+    private getDailyNotePath(day: moment.Moment): string {
+        const options = (this.app as AppWithInternalPlugins).internalPlugins
+            ?.getPluginById?.('daily-notes')?.instance?.options ?? {};
+
+        const fileName = day.format(options.format || 'YYYY-MM-DD');
+        return normalizePath(`${options.folder ?? ''}/${fileName}.md`);
+    }
+
+    /**
+     * Adds the lines to the end of the log section, creating the section at the end of the note if needed.
+     */
+    private insertIntoLogSection(content: string, lines: string[]): string {
+        const contentLines = content.split('\n');
+        const headingIndex = contentLines.findIndex(line => line.trim() === this.LOG_HEADING);
+
+        if (headingIndex === -1) {
+            const separator = content.trim() ? '\n\n' : '';
+            return `${content.trimEnd()}${separator}${this.LOG_HEADING}\n${lines.join('\n')}\n`;
+        }
+
+        // The section ends at the next heading of the same or higher level
+        const nextHeadingOffset = contentLines
+            .slice(headingIndex + 1)
+            .findIndex(line => /^#{1,2}\s/.test(line));
+        let insertIndex = nextHeadingOffset === -1
+            ? contentLines.length
+            : headingIndex + 1 + nextHeadingOffset;
+
+        // Insert directly after the last non-blank line of the section
+        while (insertIndex > headingIndex + 1 && !contentLines[insertIndex - 1].trim()) {
+            insertIndex--;
+        }
+
+        contentLines.splice(insertIndex, 0, ...lines);
+        return contentLines.join('\n');
+    }
+}
@@ -11,7 +11,8 @@ export class MusicIdIndex<T> {
         "spotify_id",
         "upc",
         "isrc",
-        "mbid"
+        "mbid",
+        "local_id"
     ];
 
     /**
@@ -25,6 +26,7 @@ export class MusicIdIndex<T> {
             isrc: new Map(),
             spotify_id: new Map(),
             spotify_uri: new Map(),
+            local_id: new Map(),
         };
         this.items = new Set();
 
@@ -1,14 +1,19 @@
 import { ObsidianSpotifySettings } from "src/settings";
 import { MusicLibrarySource } from "./music-sources/MusicLibrarySource";
-import { Album, Artist, MusicEntity, Track } from "./types";
-import { App } from "obsidian";
-import { LocalTrackManager } from "./LocalTrackManager";
+import { Album, Artist, MusicEntity, SimplifiedArtist, Track } from "./types";
+import { App, TFile } from "obsidian";
+import { LocalTrackManager } from "./localTrackManager";
 import { MusicIdIndex } from "./MusicIdIndex";
 import { removeNullish } from "src/utils";
+import { MusicBrainzClient } from "./music-sources/musicbrainz/MusicBrainzClient";
 
 
 export class MusicMetadataEnricher {
+    // How long an entity MusicBrainz found nothing for is skipped, since MusicBrainz is slowly filled in by its editors
+    private readonly MUSICBRAINZ_MISS_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
+
     private readonly localTrackManager: LocalTrackManager;
+    private readonly musicBrainzClient: MusicBrainzClient | undefined;
 
     constructor(
         private app: App,
@@ -19,36 +24,167 @@ export class MusicMetadataEnricher {
             this.app,
             this.settings
         );
+        this.musicBrainzClient = this.settings.musicbrainz_enabled
+            ? new MusicBrainzClient(this.settings)
+            : undefined;
     }
 
     async enrichArtists(artists: Artist[]): Promise<Artist[]> {
-        // TODO: Add additional enrichments (e.g. MusicBrainz)
-        // and only query for enrichments when they are not already present
-        return this.enrichEntitiesWithMusicLibrarySource(
+        const enrichedArtists = await this.enrichEntitiesWithMusicLibrarySource(
             artists,
             (ids) => this.musicLibrarySource.getArtistsById(ids)
         );
+
+        return this.enrichEntitiesWithMusicBrainz(
+            enrichedArtists,
+            async (client, artist) => {
+                const spotifyUrl = artist.ids.spotify_id && `https://open.spotify.com/artist/${artist.ids.spotify_id}`;
+                return (spotifyUrl && await client.findArtistIdBySpotifyUrl(spotifyUrl))
+                    || await client.findArtistIdByName(artist.title);
+            }
+        );
     }
 
     /**
      * Queries multiple music metadata sources to populate as many metadata IDs as possible.
      */
     async enrichAlbums(albums: Album[]): Promise<Album[]> {
-        // TODO: Add additional enrichments (e.g. MusicBrainz)
-        // and only query for enrichments when they are not already present
-        return this.enrichEntitiesWithMusicLibrarySource(
+        const enrichedAlbums = await this.enrichEntitiesWithMusicLibrarySource(
             albums,
             (ids) => this.musicLibrarySource.getAlbumsById(ids)
         );
+
+        const musicBrainzAlbums = await this.enrichEntitiesWithMusicBrainz(
+            enrichedAlbums,
+            async (client, album) => album.ids.upc ? client.findReleaseIdByBarcode(album.ids.upc) : undefined
+        );
+
+        return this.enrichAlbumsWithLocalFiles(musicBrainzAlbums);
     }
 
     async enrichTracks(tracks: Track[]): Promise<Track[]> {
-        // TODO: Add additional enrichments (e.g. MusicBrainz)
-        // and only query for enrichments when they are not already present
-        return this.enrichEntitiesWithMusicLibrarySource(
+        const enrichedTracks = await this.enrichEntitiesWithMusicLibrarySource(
             tracks,
             (ids) => this.musicLibrarySource.getTracksById(ids)
         );
+
+        const musicBrainzTracks = await this.enrichEntitiesWithMusicBrainz(
+            enrichedTracks,
+            async (client, track) => track.ids.isrc ? client.findRecordingIdByIsrc(track.ids.isrc) : undefined
+        );
+
+        return this.enrichTracksWithLocalFiles(musicBrainzTracks);
+    }
+
+    /**
+     * Looks up the MusicBrainz ID of each entity that doesn't have one yet, if MusicBrainz is enabled.
+     * Lookups are made one at a time, since MusicBrainz only allows one request per second.
+     * Entities MusicBrainz recently found nothing for are skipped (see `musicbrainz_misses`); the caller is responsible for saving settings.
+     */
+    private async enrichEntitiesWithMusicBrainz<T extends MusicEntity>(
+        entities: T[],
+        findMbid: (client: MusicBrainzClient, entity: T) => Promise<string | undefined>
+    ): Promise<T[]> {
+        const client = this.musicBrainzClient;
+        if (!client) {
+            return entities;
+        }
+
+        const enrichedEntities: T[] = [];
+        for (const entity of entities) {
+            const primaryId = this.musicLibrarySource.getPrimaryId(entity.ids);
+            const missedAt = primaryId ? this.settings.musicbrainz_misses[primaryId] : undefined;
+            if (entity.ids.mbid || (missedAt && Date.now() - missedAt < this.MUSICBRAINZ_MISS_EXPIRY_MS)) {
+                enrichedEntities.push(entity);
+                continue;
+            }
+
+            try {
+                const mbid = await findMbid(client, entity);
+                if (primaryId && mbid) {
+                    delete this.settings.musicbrainz_misses[primaryId];
+                } else if (primaryId) {
+                    this.settings.musicbrainz_misses[primaryId] = Date.now();
+                }
+                enrichedEntities.push(mbid ? { ...entity, ids: { ...entity.ids, mbid } } : entity);
+            } catch (error) {
+                console.warn(`MusicBrainz lookup failed for "${entity.title}":`, error);
+                enrichedEntities.push(entity);
+            }
+        }
+
+        return enrichedEntities;
+    }
+
+    /**
+     * Links tracks to their audio file in the local music folder, if they don't have one already.
+     */
+    private async enrichTracksWithLocalFiles(tracks: Track[]): Promise<Track[]> {
+        return Promise.all(tracks.map(async track => {
+            if (track.sources.local) {
+                return track;
+            }
+
+            const localFile = await this.findLocalTrackFile(
+                track.ids.spotify_uri,
+                track.artists,
+                track.album?.title,
+                track.title
+            );
+
+            return localFile
+                ? { ...track, sources: { ...track.sources, local: this.localTrackManager.getFileLink(localFile) } }
+                : track;
+        }));
+    }
+
+    /**
+     * Links albums to the audio file of their first track, but only if every track on the album is available locally.
+     */
+    private async enrichAlbumsWithLocalFiles(albums: Album[]): Promise<Album[]> {
+        return Promise.all(albums.map(async album => {
+            if (album.sources.local || album.tracks.length === 0) {
+                return album;
+            }
+
+            const localFiles = await Promise.all(album.tracks.map(track =>
+                this.findLocalTrackFile(track.ids.spotify_uri, album.artists, album.title, track.title)
+            ));
+
+            if (localFiles.some(file => !file)) {
+                return album;
+            }
+
+            return { ...album, sources: { ...album.sources, local: this.localTrackManager.getFileLink(localFiles[0] as TFile) } };
+        }));
+    }
+
+    /**
+     * Finds the local audio file for a track, either from a Spotify local file URI,
+     * or (if enabled) by matching the artist, album and title against the tags of local files.
+     */
+    private async findLocalTrackFile(
+        spotifyUri: string | undefined,
+        artists: SimplifiedArtist[],
+        albumTitle: string | undefined,
+        trackTitle: string
+    ): Promise<TFile | undefined> {
+        if (spotifyUri?.startsWith('spotify:local:')) {
+            return this.localTrackManager.findTrackFile(spotifyUri);
+        }
+
+        if (!this.settings.match_local_files_by_metadata) {
+            return undefined;
+        }
+
+        for (const artist of artists) {
+            const file = await this.localTrackManager.findTrackFileByMetadata(artist.title, albumTitle ?? "", trackTitle);
+            if (file) {
+                return file;
+            }
+        }
+
+        return undefined;
     }
 
     private async enrichEntitiesWithMusicLibrarySource<T extends MusicEntity>(
@@ -68,7 +204,17 @@ export class MusicMetadataEnricher {
 
         return entities.map(item => {
             const enriched = enrichedDataIndex.get(item.ids);
-            return enriched ? { ...item, ...removeNullish(enriched) } : item;
+            if (!enriched) {
+                return item;
+            }
+
+            // IDs and sources from other services must survive enrichment, so merge those rather than replacing them
+            return {
+                ...item,
+                ...removeNullish(enriched),
+                ids: { ...item.ids, ...removeNullish(enriched.ids) },
+                sources: { ...item.sources, ...removeNullish(enriched.sources) }
+            };
         });
     }
 }
@@ -0,0 +1,100 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { ObsidianSpotifySettings } from 'src/settings';
+import { PlayStats } from './types';
+
+/**
+ * A single play in Spotify's "Extended streaming history" export.
+ * Only the fields used by the importer are listed.
+ */
+interface StreamingHistoryEntry {
+    ts: string;
+    ms_played: number;
+    spotify_track_uri: string | null;
+}
+
+/**
+ * Reads the Spotify "Extended streaming history" export (Streaming_History_Audio_*.json files) from the vault,
+ * and totals up the plays of each track.
+ */
+export class StreamingHistoryReader {
+    // Spotify only counts a play as a stream once it passes 30 seconds
+    private readonly MIN_PLAY_MS = 30000;
+    private readonly FILE_NAME_PATTERN = /^Streaming_History_Audio_.*\.json$/;
+
+    constructor(
+        private app: App,
+        private settings: ObsidianSpotifySettings
+    ) { }
+
+    /**
+     * Returns the export files in the configured folder, or anywhere in the vault if no folder is configured.
+     */
+    getHistoryFiles(): TFile[] {
+        const folderPath = this.settings.streaming_history_path?.trim()
+            ? normalizePath(this.settings.streaming_history_path) + '/'
+            : '';
+
+        return this.app.vault.getFiles()
+            .filter(file => file.path.startsWith(folderPath) && this.FILE_NAME_PATTERN.test(file.name));
+    }
+
+    /**
+     * Reads every export file and totals the plays of each track.
+     * @returns Map from Spotify track URI to the play stats of that track
+     */
+    async readPlayStats(): Promise<Map<string, PlayStats>> {
+        const playStats = new Map<string, PlayStats>();
+
+        for (const file of this.getHistoryFiles()) {
+            const entries = await this.readEntries(file);
+
+            entries
+                .filter(entry => !!entry.spotify_track_uri)
+                .forEach(entry => {
+                    const uri = entry.spotify_track_uri as string;
+                    const entryStats = this.toPlayStats(entry);
+                    const existing = playStats.get(uri);
+                    playStats.set(uri, existing ? mergePlayStats(existing, entryStats) : entryStats);
+                });
+        }
+
+        return playStats;
+    }
+
+    private async readEntries(file: TFile): Promise<StreamingHistoryEntry[]> {
+        try {
+            const entries = JSON.parse(await this.app.vault.read(file));
+            return Array.isArray(entries) ? entries : [];
+        } catch (error) {
+            console.warn(`Failed to read streaming history file ${file.path}:`, error);
+            return [];
+        }
+    }
+
+    private toPlayStats(entry: StreamingHistoryEntry): PlayStats {
+        const playedAt = moment(entry.ts);
+        const isCounted = entry.ms_played >= this.MIN_PLAY_MS;
+
+        return {
+            playCount: isCounted ? 1 : 0,
+            firstPlayed: isCounted ? playedAt : undefined,
+            lastPlayed: isCounted ? playedAt : undefined,
+            msPlayed: entry.ms_played ?? 0
+        };
+    }
+}
+
+/**
+ * Combines the play stats of two tracks (or two plays of the same track).
+ */
+export function mergePlayStats(a: PlayStats, b: PlayStats): PlayStats {
+    const earliest = (x?: moment.Moment, y?: moment.Moment) => (!x || (y && y.isBefore(x))) ? y : x;
+    const latest = (x?: moment.Moment, y?: moment.Moment) => (!x || (y && y.isAfter(x))) ? y : x;
+
+    return {
+        playCount: a.playCount + b.playCount,
+        firstPlayed: earliest(a.firstPlayed, b.firstPlayed),
+        lastPlayed: latest(a.lastPlayed, b.lastPlayed),
+        msPlayed: a.msPlayed + b.msPlayed
+    };
+}
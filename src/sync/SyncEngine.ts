@@ -1,24 +1,36 @@
-import { App, Notice } from 'obsidian';
+import { App, Notice, TFile, moment } from 'obsidian';
 import { ObsidianSpotifySettings } from '../settings';
-import { FileManager } from './FileManager';
-import { MusicFile, MusicEntity, Artist, Album, Track } from './types';
-import { MusicLibrarySource } from './music-sources/MusicLibrarySource';
+import { FileManager } from './fileManager';
+import { MusicFile, MusicEntity, Artist, Album, Track, Playlist, PlayStats, SimplifiedPlaylist, MusicIds, LibraryEntityType, LibraryStatusChange } from './types';
+import { MusicLibrarySource, TopItemsTimeRange } from './music-sources/MusicLibrarySource';
 import { MusicIdIndex } from './MusicIdIndex';
 import { MusicMetadataEnricher } from './MusicMetadataEnricher';
-import { MusicFrontmatter } from './frontmatterTypes';
 import { removeNullish } from 'src/utils';
+import { StreamingHistoryReader, mergePlayStats } from './StreamingHistoryReader';
+import { ListeningLogWriter } from './ListeningLogWriter';
+import { TopItemsRanking, TopItemsSnapshotWriter } from './TopItemsSnapshotWriter';
+import { SyncPlan } from './SyncPlan';
+import { SyncJournal } from './SyncJournal';
+import { SyncReport } from './SyncReport';
+import { SyncReportWriter } from './SyncReportWriter';
 
 export class SyncEngine {
     private readonly fileManager: FileManager;
     private readonly metadataEnricher: MusicMetadataEnricher;
 
+    // The report of the sync that is currently running
+    private syncReport?: SyncReport;
+    // The plan of the sync that is currently being previewed
+    private syncPlan?: SyncPlan;
+
     constructor(
         private app: App,
         private settings: ObsidianSpotifySettings,
-        private musicLibrarySource: MusicLibrarySource
+        private musicLibrarySource: MusicLibrarySource,
+        private journal?: SyncJournal
     ) {
 
-        this.fileManager = new FileManager(this.app, this.settings);
+        this.fileManager = new FileManager(this.app, this.settings, this.journal);
         this.metadataEnricher = new MusicMetadataEnricher(
             this.app,
             this.settings,
@@ -30,64 +42,734 @@ export class SyncEngine {
         try {
             new Notice('Starting full sync...');
 
-            await this.fileManager.ensureDirectoryExists(this.fileManager.artistsPath);
-            await this.fileManager.ensureDirectoryExists(this.fileManager.albumsPath);
-            await this.fileManager.ensureDirectoryExists(this.fileManager.tracksPath);
+            const report = await this.runSync('Full sync', () => this.runFullSync());
 
-            // Freshen existing files
-            const artistFiles = await this.freshenArtists();
-            const albumFiles = await this.freshenAlbums();
-            const trackFiles = await this.freshenTracks();
+            new Notice(this.describeOutcome(report, 'Full sync completed successfully!'));
+        } catch (error) {
+            console.error('Full sync failed:', error);
+            new Notice('Full sync failed. Check console for details.');
+        }
+    }
 
-            // Fetch all library entities (music saved in streaming service or local library)
-            const savedArtists = await this.musicLibrarySource.getSavedArtists({});
-            const savedAlbums = await this.musicLibrarySource.getSavedAlbums({});
-            const savedTracks = await this.musicLibrarySource.getSavedTracks({});
+    /**
+     * Works out everything a full sync would change, without touching the vault.
+     * @returns The planned changes, which can be applied with `applySyncPlan`, or undefined if planning failed
+     */
+    async planFullSync(): Promise<SyncPlan | undefined> {
+        const plan = this.fileManager.startPlanning();
+        this.syncPlan = plan;
 
-            // Ingest new entities
-            await this.ingestNewArtists(savedArtists);
-            await this.ingestNewAlbums(savedAlbums);
-            await this.ingestNewTracks(savedTracks);
+        try {
+            new Notice('Preparing full sync preview...');
 
-            // Update the library status of all files
-            await this.updateLibraryStatus(savedArtists, artistFiles);
-            await this.updateLibraryStatus(savedAlbums, albumFiles);
-            await this.updateLibraryStatus(savedTracks, trackFiles);
+            await this.runFullSync();
 
-            new Notice('Full sync completed successfully!');
+            return plan;
         } catch (error) {
-            console.error('Full sync failed:', error);
-            new Notice('Full sync failed. Check console for details.');
+            console.error('Full sync preview failed:', error);
+            new Notice('Full sync preview failed. Check console for details.');
+            return undefined;
+        } finally {
+            this.fileManager.stopPlanning();
+            this.syncPlan = undefined;
+        }
+    }
+
+    /**
+     * Applies the changes of a sync plan: creating files first, then updating existing files and their library status.
+     * The synced library statuses and checkpoints of the plan are recorded too; the caller is responsible for saving settings.
+     */
+    async applySyncPlan(plan: SyncPlan): Promise<void> {
+        try {
+            new Notice('Applying sync changes...');
+
+            const report = await this.runSync('Full sync (previewed)', async () => {
+                // Files are created one at a time, so that artists and albums exist before the tracks that link to them
+                for (const creation of plan.creations) {
+                    await this.runEntityChange(creation.title, () => creation.apply());
+                }
+                // Albums and playlists are created before their tracks, so their track lists are linked once the tracks exist
+                await this.fileManager.linkAlbumTracklists();
+                await this.fileManager.linkPlaylistTracklists();
+
+                await Promise.all(plan.updates.map(update => this.runEntityChange(update.file.basename, async () => {
+                    for (const write of update.apply) {
+                        await write();
+                    }
+                    this.syncReport?.recordRefreshedFile(update.file, update.file.basename);
+                })));
+
+                Object.assign(this.settings.library_status_baseline, plan.libraryStatusBaseline);
+                await Promise.all(plan.libraryStatusChanges.map(change => this.runEntityChange(change.title, async () => {
+                    await change.apply();
+                    this.recordSyncedLibraryStatus(change.ids, change.inLibrary);
+                })));
+
+                if (plan.syncState) {
+                    this.settings.sync_state = plan.syncState;
+                }
+            });
+
+            new Notice(this.describeOutcome(
+                report,
+                `Created ${plan.creations.length} notes and updated ${plan.updates.length + plan.libraryStatusChanges.length} notes`
+            ));
+        } catch (error) {
+            console.error('Applying sync changes failed:', error);
+            new Notice('Applying sync changes failed. Check console for details.');
         }
     }
 
+    /**
+     * Runs a sync, journaling the files it creates and the frontmatter it changes so that it can be undone,
+     * and reporting what it changed when sync reports are enabled.
+     * Whatever a failed sync changed before failing is journaled and reported too.
+     * @returns The report of the sync
+     */
+    private async runSync(runName: string, run: () => Promise<void>): Promise<SyncReport> {
+        const report = new SyncReport(runName);
+        this.syncReport = report;
+        this.fileManager.setSyncReport(report);
+        this.journal?.begin(runName);
+
+        try {
+            await run();
+        } catch (error) {
+            report.recordError(runName, error);
+            throw error;
+        } finally {
+            this.syncReport = undefined;
+            this.fileManager.setSyncReport(undefined);
+            await this.journal?.commit();
+            await this.writeSyncReport(report);
+        }
+
+        return report;
+    }
+
+    private async writeSyncReport(report: SyncReport): Promise<void> {
+        if (!this.settings.sync_reports_enabled) {
+            return;
+        }
+
+        try {
+            const writer = new SyncReportWriter(
+                this.app,
+                this.settings,
+                (file, displayTitle) => this.fileManager.generateFileLink(file, displayTitle)
+            );
+            await writer.writeReport(report);
+        } catch (error) {
+            console.error('Writing sync report failed:', error);
+        }
+    }
+
+    /**
+     * Runs a change to a single entity, so that one failing entity doesn't stop the rest of the sync.
+     * The failure is recorded in the report of the running sync.
+     */
+    private async runEntityChange(title: string, change: () => Promise<void>): Promise<void> {
+        try {
+            await change();
+        } catch (error) {
+            console.error(`Failed to sync "${title}":`, error);
+            this.syncReport?.recordError(title, error);
+        }
+    }
+
+    private describeOutcome(report: SyncReport, successMessage: string): string {
+        if (report.errors.length === 0) {
+            return successMessage;
+        }
+
+        const detailsLocation = this.settings.sync_reports_enabled ? 'the sync report' : 'console';
+        return `${report.runName} completed with ${report.errors.length} errors. Check ${detailsLocation} for details.`;
+    }
+
+    private async runFullSync(): Promise<void> {
+        await this.fileManager.ensureDirectoryExists(this.fileManager.artistsPath);
+        await this.fileManager.ensureDirectoryExists(this.fileManager.albumsPath);
+        await this.fileManager.ensureDirectoryExists(this.fileManager.tracksPath);
+        await this.fileManager.ensureDirectoryExists(this.fileManager.playlistsPath);
+
+        // Freshen existing files
+        const artistFiles = await this.freshenArtists();
+        const albumFiles = await this.freshenAlbums();
+        const trackFiles = await this.freshenTracks();
+
+        // Fetch all library entities (music saved in streaming service or local library)
+        const savedArtists = await this.musicLibrarySource.getSavedArtists({});
+        const savedAlbums = await this.musicLibrarySource.getSavedAlbums({});
+        const savedTracks = await this.musicLibrarySource.getSavedTracks({});
+        const { playlists, playlistTracks } = await this.getPlaylists();
+        const syncedTracks = this.mergeTracks([...savedTracks, ...playlistTracks]);
+
+        // Ingest new entities
+        await this.ingestNewArtists(savedArtists);
+        await this.ingestNewAlbums(savedAlbums);
+        await this.ingestNewPlaylists(playlists);
+        await this.ingestSyncedTracks(savedTracks, syncedTracks);
+        await this.completeAlbumTracklists(savedAlbums);
+        await this.importFollowedArtistDiscographies(savedArtists);
+
+        // Update playlist membership of existing tracks, and the track list of each playlist
+        await this.updatePlaylistMembership(syncedTracks, playlists, trackFiles);
+        await this.updatePlaylistFiles(playlists);
+
+        // Update the library status of all files
+        await this.updateLibraryStatus(savedArtists, artistFiles);
+        await this.updateLibraryStatus(savedAlbums, albumFiles);
+        // Tracks that are only in playlists aren't saved, so they aren't in the library
+        await this.updateLibraryStatus(savedTracks, trackFiles);
+
+        this.updateSyncState(savedAlbums, savedTracks, playlists);
+    }
+
     async incrementalSync(silent?: boolean): Promise<void> {
         try {
             !silent && new Notice('Starting incremental sync...');
 
-            await this.fileManager.ensureDirectoryExists(this.fileManager.artistsPath);
-            await this.fileManager.ensureDirectoryExists(this.fileManager.albumsPath);
+            const report = await this.runSync('Recent sync', () => this.runIncrementalSync());
+
+            !silent && new Notice(this.describeOutcome(report, 'Incremental sync completed successfully!'));
+        } catch (error) {
+            console.error('Incremental sync failed:', error);
+            new Notice('Incremental sync failed. Check console for details.');
+        }
+    }
+
+    private async runIncrementalSync(): Promise<void> {
+        await this.fileManager.ensureDirectoryExists(this.fileManager.artistsPath);
+        await this.fileManager.ensureDirectoryExists(this.fileManager.albumsPath);
+        await this.fileManager.ensureDirectoryExists(this.fileManager.tracksPath);
+        await this.fileManager.ensureDirectoryExists(this.fileManager.playlistsPath);
+
+        // For efficiency of the incremental sync, we skip any freshening of existing files
+
+        // Fetch everything saved since the last sync. Artists can't be fetched by date, so they are always fetched:
+        // their number doesn't tell whether any changed, since following one artist and unfollowing another keeps it the same.
+        const syncState = this.settings.sync_state;
+        const savedArtists = await this.musicLibrarySource.getSavedArtists({ recentOnly: true });
+        const savedAlbums = await this.musicLibrarySource.getSavedAlbums({
+            recentOnly: true,
+            addedAfter: syncState.saved_albums_added_at ? moment(syncState.saved_albums_added_at) : undefined
+        });
+        const savedTracks = await this.musicLibrarySource.getSavedTracks({
+            recentOnly: true,
+            addedAfter: syncState.saved_tracks_added_at ? moment(syncState.saved_tracks_added_at) : undefined
+        });
+        const { playlists, playlistTracks } = await this.getPlaylists(syncState.playlist_snapshot_ids);
+        const syncedTracks = this.mergeTracks([...savedTracks, ...playlistTracks]);
+
+        const trackFiles = (await this.fileManager.getTrackIndex()).values();
+
+        // Only ingest new entities
+        await this.ingestNewArtists(savedArtists);
+        await this.ingestNewAlbums(savedAlbums);
+        await this.ingestNewPlaylists(playlists);
+        await this.ingestSyncedTracks(savedTracks, syncedTracks);
+        await this.completeAlbumTracklists(savedAlbums);
+
+        // Changed playlists are fetched in full, so their track lists can be kept in order
+        await this.updatePlaylistMembership(syncedTracks, playlists, trackFiles);
+        await this.updatePlaylistFiles(playlists);
+
+        this.updateSyncState(savedAlbums, savedTracks, playlists);
+    }
+
+    /**
+     * Appends plays since the last logged play to the listening log, creating files for any tracks not yet in the catalog.
+     * The time of the last logged play is stored in `listening_log_cursor`; the caller is responsible for saving settings.
+     */
+    async syncListeningLog(silent?: boolean): Promise<void> {
+        try {
+            const cursor = this.settings.listening_log_cursor;
+            const recentPlays = await this.musicLibrarySource.getRecentlyPlayed(cursor ? moment(cursor) : undefined);
+
+            const plays = recentPlays
+                .filter(play => play.playedAt.valueOf() > cursor)
+                .sort((a, b) => a.playedAt.valueOf() - b.playedAt.valueOf());
+
+            if (plays.length === 0) {
+                !silent && new Notice('No new plays to log');
+                return;
+            }
+
             await this.fileManager.ensureDirectoryExists(this.fileManager.tracksPath);
+            await this.ingestNewTracks(this.mergeTracks(plays.map(play => play.track)), false);
+
+            const listeningLogWriter = new ListeningLogWriter(this.app, this.settings);
+            const linesByDay = new Map<string, string[]>();
+
+            for (const play of plays) {
+                const day = play.playedAt.clone().local().format('YYYY-MM-DD');
+                const trackLink = await this.fileManager.generateTrackLink(play.track);
+                const artistNames = play.track.artists.map(artist => artist.title).join(', ');
 
-            // For efficiency of the incremental sync, we skip any freshening of existing files
+                const line = `- ${play.playedAt.clone().local().format('HH:mm')} ${trackLink}${artistNames ? ` – ${artistNames}` : ''}`;
+                linesByDay.set(day, [...linesByDay.get(day) ?? [], line]);
+            }
 
-            // Fetch all recently-saved library entities
-            const savedArtists = await this.musicLibrarySource.getSavedArtists({ recentOnly: true });
-            const savedAlbums = await this.musicLibrarySource.getSavedAlbums({ recentOnly: true });
-            const savedTracks = await this.musicLibrarySource.getSavedTracks({ recentOnly: true });
+            for (const [day, lines] of linesByDay) {
+                await listeningLogWriter.appendToLog(moment(day, 'YYYY-MM-DD'), lines);
+            }
 
-            // Only ingest new entities
-            await this.ingestNewArtists(savedArtists);
-            await this.ingestNewAlbums(savedAlbums);
-            await this.ingestNewTracks(savedTracks);
+            this.settings.listening_log_cursor = plays[plays.length - 1].playedAt.valueOf();
 
-            !silent && new Notice('Incremental sync completed successfully!');
+            !silent && new Notice(`Logged ${plays.length} plays`);
         } catch (error) {
-            console.error('Incremental sync failed:', error);
-            new Notice('Incremental sync failed. Check console for details.');
+            console.error('Listening log sync failed:', error);
+            !silent && new Notice('Listening log sync failed. Check console for details.');
+        }
+    }
+
+    /**
+     * Writes a dated snapshot note of the top artists and tracks for each time range,
+     * and records their ranks in the `top_rank_history` of existing artist and track files.
+     * The time of the snapshot is stored in `top_snapshot_last_run`; the caller is responsible for saving settings.
+     */
+    async snapshotTopItems(silent?: boolean): Promise<void> {
+        try {
+            !silent && new Notice('Taking snapshot of top artists and tracks...');
+
+            const timeRanges: TopItemsTimeRange[] = ['short_term', 'medium_term', 'long_term'];
+            const today = moment();
+
+            const artistIndex = await this.fileManager.getArtistIndex();
+            const trackIndex = await this.fileManager.getTrackIndex();
+
+            const rankings: TopItemsRanking[] = [];
+            const artistRanks = new Map<MusicFile<Artist>, Partial<Record<TopItemsTimeRange, number>>>();
+            const trackRanks = new Map<MusicFile<Track>, Partial<Record<TopItemsTimeRange, number>>>();
+
+            for (const timeRange of timeRanges) {
+                const topArtists = await this.musicLibrarySource.getTopArtists(timeRange);
+                const topTracks = await this.musicLibrarySource.getTopTracks(timeRange);
+
+                topArtists.forEach((artist, index) => {
+                    const artistFile = artistIndex.get(artist.ids);
+                    artistFile && artistRanks.set(artistFile, { ...artistRanks.get(artistFile), [timeRange]: index + 1 });
+                });
+
+                topTracks.forEach((track, index) => {
+                    const trackFile = trackIndex.get(track.ids);
+                    trackFile && trackRanks.set(trackFile, { ...trackRanks.get(trackFile), [timeRange]: index + 1 });
+                });
+
+                rankings.push({
+                    timeRange,
+                    artists: await Promise.all(topArtists.map(artist => this.fileManager.generateArtistLink(artist))),
+                    tracks: await Promise.all(topTracks.map(async track => {
+                        const trackLink = await this.fileManager.generateTrackLink(track);
+                        const artistNames = track.artists.map(artist => artist.title).join(', ');
+                        return `${trackLink}${artistNames ? ` – ${artistNames}` : ''}`;
+                    }))
+                });
+            }
+
+            await new TopItemsSnapshotWriter(this.app, this.settings).writeSnapshot(today, rankings);
+
+            await Promise.all([
+                ...Array.from(artistRanks).map(([file, ranks]) => this.fileManager.updateTopRanks(file, today, ranks)),
+                ...Array.from(trackRanks).map(([file, ranks]) => this.fileManager.updateTopRanks(file, today, ranks)),
+            ]);
+
+            this.settings.top_snapshot_last_run = today.valueOf();
+
+            !silent && new Notice('Snapshot of top artists and tracks completed successfully!');
+        } catch (error) {
+            console.error('Top items snapshot failed:', error);
+            !silent && new Notice('Top items snapshot failed. Check console for details.');
+        }
+    }
+
+    /**
+     * Finds the artist, album and track files whose `in_library` has been edited since it was last synced.
+     */
+    async findLibraryStatusChanges(): Promise<LibraryStatusChange[]> {
+        const catalog = await this.getLibraryCatalog();
+
+        return catalog.flatMap(({ entityType, files }) => files
+            .filter(file => {
+                const primaryId = this.musicLibrarySource.getPrimaryId(file.ids);
+                const syncedStatus = primaryId ? this.settings.library_status_baseline[primaryId] : undefined;
+                return syncedStatus !== undefined && !!file.sources.in_library !== syncedStatus;
+            })
+            .map(file => ({ entityType, file, inLibrary: !!file.sources.in_library }))
+        );
+    }
+
+    /**
+     * Builds the change that saves the entity of a catalog note to (or removes it from) the library.
+     * @returns The change, or undefined if the note is not an artist, album or track in the catalog
+     */
+    async getLibraryStatusChange(file: TFile, inLibrary: boolean): Promise<LibraryStatusChange | undefined> {
+        const catalog = await this.getLibraryCatalog();
+
+        for (const { entityType, files } of catalog) {
+            const musicFile = files.find(candidate => candidate.file.path === file.path);
+            if (musicFile) {
+                return { entityType, file: musicFile, inLibrary };
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Saves and removes entities in the library source, then updates the `in_library` status of their files to match.
+     * The synced statuses are stored in `library_status_baseline`; the caller is responsible for saving settings.
+     */
+    async pushLibraryStatusChanges(changes: LibraryStatusChange[]): Promise<void> {
+        try {
+            const entityTypes: LibraryEntityType[] = ['artist', 'album', 'track'];
+
+            for (const entityType of entityTypes) {
+                for (const inLibrary of [true, false]) {
+                    const batch = changes.filter(change => change.entityType === entityType && change.inLibrary === inLibrary);
+                    const ids = batch
+                        .map(change => this.musicLibrarySource.getPrimaryId(change.file.ids))
+                        .filter((id): id is string => !!id);
+
+                    if (ids.length > 0) {
+                        await this.musicLibrarySource.setLibraryStatus(entityType, ids, inLibrary);
+                    }
+                }
+            }
+
+            await Promise.all(changes.map(change => {
+                this.recordSyncedLibraryStatus(change.file.ids, change.inLibrary);
+                return this.fileManager.updateLibraryStatus(change.file, change.inLibrary);
+            }));
+
+            new Notice(`Updated library status of ${changes.length} items`);
+        } catch (error) {
+            console.error('Library write-back failed:', error);
+            new Notice('Library write-back failed. Check console for details.');
+        }
+    }
+
+    /**
+     * Imports the discography of the artist of a catalog note.
+     */
+    async importDiscography(file: TFile): Promise<void> {
+        try {
+            const artistIndex = await this.fileManager.getArtistIndex();
+            const artistFile = artistIndex.values().find(candidate => candidate.file.path === file.path);
+            if (!artistFile) {
+                new Notice('This note is not an artist in the music catalog');
+                return;
+            }
+
+            new Notice(`Importing the discography of ${artistFile.title}...`);
+
+            const releaseCount = await this.importArtistDiscography(artistFile);
+
+            new Notice(`Listed ${releaseCount} releases of ${artistFile.title}`);
+        } catch (error) {
+            console.error('Discography import failed:', error);
+            new Notice('Discography import failed. Check console for details.');
+        }
+    }
+
+    /**
+     * Imports the discographies of the followed artists, if enabled.
+     */
+    private async importFollowedArtistDiscographies(savedArtists: Artist[]): Promise<void> {
+        if (!this.settings.import_followed_artist_discographies) {
+            return;
+        }
+
+        const artistIndex = await this.fileManager.getArtistIndex();
+        for (const artist of savedArtists) {
+            const artistFile = artistIndex.get(artist.ids);
+            if (artistFile) {
+                await this.runEntityChange(artist.title, async () => {
+                    await this.importArtistDiscography(artistFile);
+                });
+            }
+        }
+    }
+
+    /**
+     * Lists the albums, singles and compilations of the artist in the `discography` of their note.
+     * If enabled, notes are created for the albums and compilations that aren't in the catalog, marked as not in the library.
+     * Singles are only listed, since they are stored as tracks.
+     * @returns The number of releases listed
+     */
+    private async importArtistDiscography(artistFile: MusicFile<Artist>): Promise<number> {
+        const artistId = this.musicLibrarySource.getPrimaryId(artistFile.ids);
+        if (!artistId) {
+            return 0;
+        }
+
+        const albums = await this.musicLibrarySource.getArtistAlbums(artistId);
+
+        if (this.settings.discography_create_album_notes) {
+            const albumIndex = await this.fileManager.getAlbumIndex();
+            const newAlbumIds = albums
+                .filter(album => album.albumType !== 'single' && !albumIndex.has(album.ids))
+                .map(album => this.musicLibrarySource.getPrimaryId(album.ids))
+                .filter((id): id is string => !!id);
+
+            if (newAlbumIds.length > 0) {
+                await this.fileManager.ensureDirectoryExists(this.fileManager.albumsPath);
+                await this.ingestNewAlbums(await this.musicLibrarySource.getAlbumsById(newAlbumIds), false);
+            }
+        }
+
+        await this.fileManager.updateDiscography(artistFile, albums);
+        return albums.length;
+    }
+
+    /**
+     * Refreshes albums and tracks that are missing their UPC or ISRC,
+     * so that they can be matched across music sources.
+     */
+    async backfillExternalIds(): Promise<void> {
+        try {
+            new Notice('Backfilling ISRC and UPC IDs...');
+
+            const albumIndex = await this.fileManager.getAlbumIndex();
+            const albumFiles = await this.freshenFiles(
+                albumIndex.values().filter(file => !file.ids.upc),
+                entities => this.metadataEnricher.enrichAlbums(entities),
+                updatedFile => this.fileManager.updateAlbumFile(updatedFile),
+                "album"
+            );
+
+            const trackIndex = await this.fileManager.getTrackIndex();
+            const trackFiles = await this.freshenFiles(
+                trackIndex.values().filter(file => !file.ids.isrc),
+                entities => this.metadataEnricher.enrichTracks(entities),
+                updatedFile => this.fileManager.updateTrackFile(updatedFile),
+                "track"
+            );
+
+            const albumCount = albumFiles.filter(file => file.ids.upc).length;
+            const trackCount = trackFiles.filter(file => file.ids.isrc).length;
+            new Notice(`Backfilled UPCs for ${albumCount} albums and ISRCs for ${trackCount} tracks`);
+        } catch (error) {
+            console.error('ID backfill failed:', error);
+            new Notice('ID backfill failed. Check console for details.');
         }
     }
 
+    /**
+     * Imports play counts from Spotify's "Extended streaming history" export into track, album and artist files.
+     * Stats are recalculated from the full export each time, so importing again is safe.
+     */
+    async importStreamingHistory(): Promise<void> {
+        try {
+            const historyReader = new StreamingHistoryReader(this.app, this.settings);
+            if (historyReader.getHistoryFiles().length === 0) {
+                new Notice('No streaming history files (Streaming_History_Audio_*.json) found');
+                return;
+            }
+
+            new Notice('Importing streaming history...');
+
+            const playStatsByUri = await historyReader.readPlayStats();
+            console.log(`Read streaming history for ${playStatsByUri.size} tracks`);
+
+            await this.ingestFrequentlyPlayedTracks(playStatsByUri);
+
+            const trackIndex = await this.fileManager.getTrackIndex();
+            const albumIndex = await this.fileManager.getAlbumIndex();
+            const artistIndex = await this.fileManager.getArtistIndex();
+
+            const trackStats = new Map<MusicFile<Track>, PlayStats>();
+            const albumStats = new Map<MusicFile<Album>, PlayStats>();
+            const artistStats = new Map<MusicFile<Artist>, PlayStats>();
+
+            const addStats = <T extends MusicEntity>(statsMap: Map<MusicFile<T>, PlayStats>, file: MusicFile<T>, stats: PlayStats) => {
+                const existing = statsMap.get(file);
+                statsMap.set(file, existing ? mergePlayStats(existing, stats) : stats);
+            };
+
+            playStatsByUri.forEach((stats, uri) => {
+                const trackFile = trackIndex.get({ spotify_uri: uri });
+                if (!trackFile) {
+                    return;
+                }
+
+                addStats(trackStats, trackFile, stats);
+
+                const albumFile = trackFile.album && albumIndex.get(trackFile.album.ids);
+                albumFile && addStats(albumStats, albumFile, stats);
+
+                trackFile.artists.forEach(artist => {
+                    const artistFile = artistIndex.get(artist.ids);
+                    artistFile && addStats(artistStats, artistFile, stats);
+                });
+            });
+
+            await Promise.all([
+                ...Array.from(trackStats).map(([file, stats]) => this.fileManager.updatePlayStats(file, stats)),
+                ...Array.from(albumStats).map(([file, stats]) => this.fileManager.updatePlayStats(file, stats)),
+                ...Array.from(artistStats).map(([file, stats]) => this.fileManager.updatePlayStats(file, stats)),
+            ]);
+
+            new Notice(`Imported play counts for ${trackStats.size} tracks, ${albumStats.size} albums and ${artistStats.size} artists`);
+        } catch (error) {
+            console.error('Streaming history import failed:', error);
+            new Notice('Streaming history import failed. Check console for details.');
+        }
+    }
+
+    /**
+     * Creates files for tracks that aren't in the catalog but were played at least the configured number of times.
+     */
+    private async ingestFrequentlyPlayedTracks(playStatsByUri: Map<string, PlayStats>): Promise<void> {
+        const minPlayCount = this.settings.streaming_history_min_plays_for_new_notes;
+        if (!minPlayCount) {
+            return;
+        }
+
+        await this.fileManager.ensureDirectoryExists(this.fileManager.tracksPath);
+
+        const trackIndex = await this.fileManager.getTrackIndex();
+        const spotifyIds = Array.from(playStatsByUri)
+            .filter(([uri, stats]) => stats.playCount >= minPlayCount && !trackIndex.has({ spotify_uri: uri }))
+            .map(([uri]) => uri.replace('spotify:track:', ''));
+
+        if (spotifyIds.length === 0) {
+            return;
+        }
+
+        const tracks = await this.musicLibrarySource.getTracksById(spotifyIds);
+        await this.ingestNewTracks(tracks, false);
+    }
+
+    /**
+     * Fetches every configured playlist along with all of its tracks, tagging each track with the playlist it came from.
+     * Playlists that fail to load are skipped.
+     * @param syncedSnapshotIds - The snapshot_id of each playlist as of the last sync; playlists that haven't changed since are skipped
+     */
+    private async getPlaylists(syncedSnapshotIds: Record<string, string> = {}): Promise<{ playlists: Playlist[], playlistTracks: Track[] }> {
+        const playlists: Playlist[] = [];
+        const playlistTracks: Track[] = [];
+
+        const playlistIds = this.settings.playlist_ids.filter(id => !!id.trim());
+        for (const playlistId of playlistIds) {
+            const playlistName = this.settings.playlist_names[playlistId] || playlistId;
+
+            try {
+                console.log(`Fetching playlist "${playlistName}"...`);
+                const playlist = await this.musicLibrarySource.getPlaylist(playlistId);
+                if (!playlist) {
+                    continue;
+                }
+
+                if (playlist.snapshotId && playlist.snapshotId === syncedSnapshotIds[playlistId]) {
+                    console.log(`Playlist "${playlistName}" is unchanged since the last sync`);
+                    continue;
+                }
+
+                const tracks = await this.musicLibrarySource.getPlaylistTracks(playlistId, {});
+                playlist.tracks = tracks.map(track => ({ title: track.title, ids: track.ids }));
+                playlists.push(playlist);
+
+                const simplifiedPlaylist: SimplifiedPlaylist = { title: playlist.title, ids: playlist.ids };
+                playlistTracks.push(...tracks.map(track => ({ ...track, playlists: [simplifiedPlaylist] })));
+            } catch (error) {
+                console.error(`Failed to fetch playlist "${playlistName}":`, error);
+                this.syncReport?.recordError(playlistName, error);
+            }
+        }
+
+        return { playlists, playlistTracks: this.mergeTracks(playlistTracks) };
+    }
+
+    /**
+     * Merges tracks that share an ID into a single track, combining the playlists they appear in.
+     * The first occurrence of a track wins for all other fields.
+     */
+    private mergeTracks(tracks: Track[]): Track[] {
+        const index = new MusicIdIndex<Track>([], track => track.ids);
+
+        tracks.forEach(track => {
+            const existing = index.get(track.ids);
+            if (!existing) {
+                index.set(track.ids, { ...track });
+                return;
+            }
+
+            const playlists = this.mergePlaylists([...existing.playlists ?? [], ...track.playlists ?? []]);
+            existing.playlists = playlists.length > 0 ? playlists : undefined;
+        });
+
+        return index.values();
+    }
+
+    private mergePlaylists(playlists: SimplifiedPlaylist[]): SimplifiedPlaylist[] {
+        const index = new MusicIdIndex<SimplifiedPlaylist>([], playlist => playlist.ids);
+
+        playlists
+            .filter(playlist => !index.has(playlist.ids))
+            .forEach(playlist => index.set(playlist.ids, playlist));
+
+        return index.values();
+    }
+
+    /**
+     * Updates the playlists recorded on existing track files.
+     * Membership of each synced playlist is rewritten to match the library tracks;
+     * any other playlists recorded on a file are left untouched.
+     */
+    private async updatePlaylistMembership(
+        libraryTracks: Track[],
+        syncedPlaylists: Playlist[],
+        files: MusicFile<Track>[]
+    ): Promise<void> {
+        const libraryTracksIndex = MusicIdIndex.fromItems(libraryTracks);
+        const syncedPlaylistsIndex = MusicIdIndex.fromItems(syncedPlaylists);
+
+        // Playlists recorded by title only (e.g. whose notes don't exist) are matched by title
+        const isSynced = (playlist: SimplifiedPlaylist) =>
+            syncedPlaylistsIndex.has(playlist.ids)
+            || syncedPlaylists.some(synced => synced.title === playlist.title);
+        const toKey = (playlist: SimplifiedPlaylist) => playlist.ids.spotify_uri ?? playlist.title;
+
+        await Promise.all(
+            files.map(async file => {
+                const currentPlaylists = file.playlists ?? [];
+                const seenPlaylists = libraryTracksIndex.get(file.ids)?.playlists ?? [];
+
+                const playlists = this.mergePlaylists([
+                    ...currentPlaylists.filter(playlist => !isSynced(playlist)),
+                    ...seenPlaylists
+                ]);
+
+                const currentKeys = currentPlaylists.map(toKey);
+                const isUnchanged = playlists.length === currentPlaylists.length
+                    && playlists.every(playlist => currentKeys.includes(toKey(playlist)));
+                if (isUnchanged) {
+                    return;
+                }
+
+                file.playlists = playlists;
+                await this.fileManager.updateTrackFile(file);
+            })
+        );
+    }
+
+    /**
+     * Writes the latest details and ordered track list of each synced playlist to its file.
+     */
+    private async updatePlaylistFiles(playlists: Playlist[]): Promise<void> {
+        const index = await this.fileManager.getPlaylistIndex();
+
+        await Promise.all(
+            playlists.map(async playlist => {
+                const file = index.get(playlist.ids);
+                if (file) {
+                    await this.fileManager.updatePlaylistFile({ ...file, ...removeNullish(playlist) });
+                }
+            })
+        );
+    }
+
     private async freshenArtists(): Promise<MusicFile<Artist>[]> {
         const index = await this.fileManager.getArtistIndex();
         return await this.freshenFiles(
@@ -118,12 +800,17 @@ export class SyncEngine {
         );
     }
 
+    /**
+     * Refreshes the metadata of the files of the library source.
+     * @returns The files of the library source, with their refreshed metadata
+     */
     private async freshenFiles<T extends MusicEntity>(
-        files: MusicFile<T>[],
+        catalogFiles: MusicFile<T>[],
         enrichEntities: (unenriched: T[]) => Promise<T[]>,
         updateFile: (enrichedFile: MusicFile<T>) => Promise<void>,
         entityName: string,
     ): Promise<MusicFile<T>[]> {
+        const files = catalogFiles.filter(file => this.isFromLibrarySource(file));
         console.log(`Freshening ${files.length} ${entityName} files...`);
 
         const musicEntities = files.map(item => {
@@ -144,7 +831,10 @@ export class SyncEngine {
                 }
 
                 const enrichedFile: MusicFile<T> = { ...file, ...removeNullish(enriched) };
-                await updateFile(enrichedFile);
+                await this.runEntityChange(file.title, async () => {
+                    await updateFile(enrichedFile);
+                    this.syncReport?.recordRefreshedFile(file.file, file.title);
+                });
                 return enrichedFile;
             })
         );
@@ -160,23 +850,67 @@ export class SyncEngine {
         );
     }
 
-    private async ingestNewAlbums(savedEntities: Album[]): Promise<void> {
+    private async ingestNewAlbums(savedEntities: Album[], inLibrary = true): Promise<void> {
         await this.ingestNewEntities(
             savedEntities,
             () => this.fileManager.getAlbumIndex(),
             entities => this.metadataEnricher.enrichAlbums(entities),
             entity => this.fileManager.createAlbumFile(entity),
-            "album"
+            "album",
+            inLibrary
         );
     }
 
-    private async ingestNewTracks(savedEntities: Track[]): Promise<void> {
+    private async ingestNewTracks(savedEntities: Track[], inLibrary = true): Promise<void> {
         await this.ingestNewEntities(
             savedEntities,
             () => this.fileManager.getTrackIndex(),
             entities => this.metadataEnricher.enrichTracks(entities),
             entity => this.fileManager.createTrackFile(entity),
-            "track"
+            "track",
+            inLibrary
+        );
+    }
+
+    /**
+     * Creates stub notes for the tracks of the albums that aren't in the catalog yet, if enabled,
+     * then links the tracklists of album notes written before the notes of their tracks.
+     */
+    private async completeAlbumTracklists(albums: Album[]): Promise<void> {
+        if (this.settings.create_album_track_notes) {
+            const trackIndex = await this.fileManager.getTrackIndex();
+            const trackIds = albums
+                .flatMap(album => album.tracks)
+                .filter(track => !trackIndex.has(track.ids))
+                .map(track => this.musicLibrarySource.getPrimaryId(track.ids))
+                .filter((id): id is string => !!id);
+
+            if (trackIds.length > 0) {
+                const tracks = await this.musicLibrarySource.getTracksById(Array.from(new Set(trackIds)));
+                await this.ingestNewTracks(tracks, false);
+            }
+        }
+
+        await this.fileManager.linkAlbumTracklists();
+    }
+
+    /**
+     * Ingests saved tracks as in the library, and tracks that are only in synced playlists as not in the library.
+     */
+    private async ingestSyncedTracks(savedTracks: Track[], syncedTracks: Track[]): Promise<void> {
+        const savedTrackIndex = new MusicIdIndex(savedTracks, track => track.ids);
+
+        await this.ingestNewTracks(syncedTracks.filter(track => savedTrackIndex.has(track.ids)));
+        await this.ingestNewTracks(syncedTracks.filter(track => !savedTrackIndex.has(track.ids)), false);
+    }
+
+    private async ingestNewPlaylists(savedEntities: Playlist[]): Promise<void> {
+        await this.ingestNewEntities(
+            savedEntities,
+            () => this.fileManager.getPlaylistIndex(),
+            async entities => entities, // Playlists are not enriched
+            entity => this.fileManager.createPlaylistFile(entity),
+            "playlist"
         );
     }
 
@@ -185,7 +919,8 @@ export class SyncEngine {
         getExistingIndex: () => Promise<MusicIdIndex<MusicFile<MusicEntity>>>,
         enrichEntities: (entities: T[]) => Promise<T[]>,
         createFile: (entity: T) => Promise<void>,
-        entityName: string
+        entityName: string,
+        inLibrary = true
     ): Promise<void> {
         console.log(`Fetching new ${entityName}s from streaming service...`);
 
@@ -200,11 +935,52 @@ export class SyncEngine {
         const enrichedEntities = await enrichEntities(newEntities);
 
         await Promise.all(enrichedEntities.map(entity => {
-            entity.sources.in_library = true;
-            createFile(entity);
+            entity.sources.in_library = inLibrary;
+            this.recordSyncedLibraryStatus(entity.ids, inLibrary);
+            return this.runEntityChange(entity.title, () => createFile(entity));
         }));
     }
 
+    /**
+     * Records checkpoints of what has been synced, so that the next incremental sync only fetches what changed since.
+     * The caller is responsible for saving settings.
+     */
+    private updateSyncState(savedAlbums: Album[], savedTracks: Track[], playlists: Playlist[]): void {
+        if (!this.musicLibrarySource.supportsIncrementalSync) {
+            return;
+        }
+
+        const newestAddedAt = (entities: MusicEntity[], previous: number) =>
+            Math.max(previous, ...entities.map(entity => entity.addedAt?.valueOf() ?? 0));
+
+        const syncedSnapshotIds = Object.fromEntries(playlists
+            .map(playlist => [this.musicLibrarySource.getPrimaryId(playlist.ids), playlist.snapshotId])
+            .filter((entry): entry is [string, string] => !!entry[0] && !!entry[1])
+        );
+
+        const syncState = this.settings.sync_state;
+        const newSyncState = {
+            saved_albums_added_at: newestAddedAt(savedAlbums, syncState.saved_albums_added_at),
+            saved_tracks_added_at: newestAddedAt(savedTracks, syncState.saved_tracks_added_at),
+            playlist_snapshot_ids: { ...syncState.playlist_snapshot_ids, ...syncedSnapshotIds }
+        };
+
+        // A previewed sync only moves the checkpoints once it is applied
+        if (this.syncPlan) {
+            this.syncPlan.syncState = newSyncState;
+        } else {
+            this.settings.sync_state = newSyncState;
+        }
+    }
+
+    private async getLibraryCatalog(): Promise<{ entityType: LibraryEntityType, files: MusicFile<MusicEntity>[] }[]> {
+        return [
+            { entityType: 'artist', files: (await this.fileManager.getArtistIndex()).values() },
+            { entityType: 'album', files: (await this.fileManager.getAlbumIndex()).values() },
+            { entityType: 'track', files: (await this.fileManager.getTrackIndex()).values() },
+        ];
+    }
+
     /**
      * Compares two music entities for equality, excluding the 'file' property
      * that causes circular references
@@ -229,7 +1005,7 @@ export class SyncEngine {
     }
 
     /**
-     * Updates the status of every file to reflect whether that entity is saved (favorited) in the library source.
+     * Updates the status of every file of the library source to reflect whether that entity is saved (favorited) in it.
      */
     private async updateLibraryStatus<T extends MusicEntity>(
         savedEntities: T[],
@@ -237,19 +1013,37 @@ export class SyncEngine {
     ) {
         const savedEntitiesIndex = new MusicIdIndex(savedEntities, entity => entity.ids);
 
-        Promise.all(
-            files.map(file => {
-                file.sources.in_library = savedEntitiesIndex.has(file.ids);
-                this.app.fileManager.processFrontMatter(
-                    file.file,
-                    (fm: MusicFrontmatter) => {
-                        fm.music_sources = {
-                            ...fm.music_sources,
-                            in_library: file.sources.in_library
-                        }
-                    }
-                )
+        await Promise.all(
+            files.filter(file => this.isFromLibrarySource(file)).map(file => {
+                const inLibrary = savedEntitiesIndex.has(file.ids);
+                // A planned change of status is recorded when it is applied, since it might not be approved
+                if (!this.syncPlan || !!file.sources.in_library === inLibrary) {
+                    this.recordSyncedLibraryStatus(file.ids, inLibrary);
+                }
+                return this.fileManager.updateLibraryStatus(file, inLibrary);
             })
         );
     }
+
+    /**
+     * Whether the file is of an entity of the library source. The catalog is shared by all library sources
+     * (e.g. Spotify and the local library), and a source can't tell anything about the entities of another.
+     */
+    private isFromLibrarySource(file: MusicFile<MusicEntity>): boolean {
+        return !!this.musicLibrarySource.getPrimaryId(file.ids);
+    }
+
+    /**
+     * Remembers the library status last synced from the library source, so that later edits to `in_library` can be detected.
+     * Only recorded when write-back is enabled. While planning, the status is recorded into the plan instead.
+     */
+    private recordSyncedLibraryStatus(ids: MusicIds, inLibrary: boolean): void {
+        const primaryId = this.musicLibrarySource.getPrimaryId(ids);
+        if (!this.settings.library_write_back_enabled || !primaryId) {
+            return;
+        }
+
+        const baseline = this.syncPlan?.libraryStatusBaseline ?? this.settings.library_status_baseline;
+        baseline[primaryId] = inLibrary;
+    }
 }
@@ -0,0 +1,204 @@
+import { App, normalizePath } from 'obsidian';
+import { ObsidianSpotifySettings, SyncState } from 'src/settings';
+
+/**
+ * The frontmatter fields of a file as they were before a sync changed them.
+ */
+interface FrontmatterJournalEntry {
+    path: string;
+    /** Previous values of the fields that were changed */
+    previousValues: Record<string, unknown>;
+    /** Fields that didn't exist before the sync */
+    addedFields: string[];
+}
+
+interface MovedFileJournalEntry {
+    from: string;
+    to: string;
+}
+
+/**
+ * Everything a single sync changed in the vault.
+ */
+interface SyncJournalRun {
+    name: string;
+    startedAt: number;
+    createdFiles: string[];
+    /** Files moved by the removal policy, in the order they were moved */
+    movedFiles?: MovedFileJournalEntry[];
+    frontmatterChanges: FrontmatterJournalEntry[];
+    previousSyncState: SyncState;
+    /** Missing from runs journaled before library statuses were restored on undo */
+    previousLibraryStatusBaseline?: Record<string, boolean>;
+}
+
+/**
+ * Records the files each sync creates and the frontmatter it changes, so that the last sync can be undone.
+ * Each run is saved as a JSON file in the journal folder, and only the most recent runs are kept.
+ */
+export class SyncJournal {
+    private readonly MAX_SAVED_RUNS = 10;
+
+    private currentRun?: SyncJournalRun;
+
+    constructor(
+        private app: App,
+        private settings: ObsidianSpotifySettings,
+        private journalFolder: string
+    ) { }
+
+    /**
+     * Starts recording a new run. Changes made outside of a run are not recorded.
+     */
+    begin(name: string): void {
+        this.currentRun = {
+            name,
+            startedAt: Date.now(),
+            createdFiles: [],
+            movedFiles: [],
+            frontmatterChanges: [],
+            previousSyncState: structuredClone(this.settings.sync_state),
+            previousLibraryStatusBaseline: structuredClone(this.settings.library_status_baseline)
+        };
+    }
+
+    recordCreatedFile(path: string): void {
+        this.currentRun?.createdFiles.push(path);
+    }
+
+    recordMovedFile(from: string, to: string): void {
+        this.currentRun?.movedFiles?.push({ from, to });
+    }
+
+    /**
+     * Records the previous values of the top-level fields that changed.
+     * Only the first change to each field of a file is kept, since that holds the value from before the run.
+     */
+    recordFrontmatterChange(path: string, before: Record<string, unknown>, after: Record<string, unknown>): void {
+        // Created files are deleted on undo, so their frontmatter doesn't need restoring
+        if (!this.currentRun || this.currentRun.createdFiles.includes(path)) {
+            return;
+        }
+
+        const changedFields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+            .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+        if (changedFields.length === 0) {
+            return;
+        }
+
+        let entry = this.currentRun.frontmatterChanges.find(existing => existing.path === path);
+        if (!entry) {
+            entry = { path, previousValues: {}, addedFields: [] };
+            this.currentRun.frontmatterChanges.push(entry);
+        }
+
+        for (const field of changedFields) {
+            if (field in entry.previousValues || entry.addedFields.includes(field)) {
+                continue;
+            }
+
+            if (field in before) {
+                entry.previousValues[field] = structuredClone(before[field]);
+            } else {
+                entry.addedFields.push(field);
+            }
+        }
+    }
+
+    /**
+     * Saves the current run, if it changed anything, and stops recording.
+     */
+    async commit(): Promise<void> {
+        const run = this.currentRun;
+        this.currentRun = undefined;
+
+        if (!run || (run.createdFiles.length === 0 && !run.movedFiles?.length && run.frontmatterChanges.length === 0)) {
+            return;
+        }
+
+        const adapter = this.app.vault.adapter;
+        const folderPath = normalizePath(this.journalFolder);
+        if (!await adapter.exists(folderPath)) {
+            await adapter.mkdir(folderPath);
+        }
+
+        await adapter.write(`${folderPath}/${run.startedAt}.json`, JSON.stringify(run));
+        await this.pruneOldRuns();
+    }
+
+    /**
+     * Deletes the files created by the last saved run, moves back the files it moved, and restores the frontmatter it changed.
+     * The run's sync checkpoints and synced library statuses are restored as well; the caller is responsible for saving settings.
+     * @returns The name of the undone run, or undefined if there was nothing to undo
+     */
+    async undoLastRun(): Promise<string | undefined> {
+        const runPaths = await this.listRunPaths();
+        const lastRunPath = runPaths[runPaths.length - 1];
+        if (!lastRunPath) {
+            return undefined;
+        }
+
+        const run: SyncJournalRun = JSON.parse(await this.app.vault.adapter.read(lastRunPath));
+
+        for (const path of run.createdFiles) {
+            const file = this.app.vault.getFileByPath(path);
+            if (file) {
+                await this.app.vault.trash(file, true);
+            }
+        }
+
+        // Frontmatter is recorded under the path a file had before it was moved, so files are moved back first
+        for (const { from, to } of [...run.movedFiles ?? []].reverse()) {
+            const file = this.app.vault.getFileByPath(to);
+            if (file && !this.app.vault.getAbstractFileByPath(from)) {
+                await this.app.fileManager.renameFile(file, from);
+            }
+        }
+
+        for (const entry of run.frontmatterChanges) {
+            const file = this.app.vault.getFileByPath(entry.path);
+            if (!file) {
+                continue;
+            }
+
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                entry.addedFields.forEach(field => delete frontmatter[field]);
+                Object.assign(frontmatter, entry.previousValues);
+            });
+        }
+
+        this.settings.sync_state = run.previousSyncState;
+        if (run.previousLibraryStatusBaseline) {
+            this.settings.library_status_baseline = run.previousLibraryStatusBaseline;
+        }
+        await this.app.vault.adapter.remove(lastRunPath);
+
+        return run.name;
+    }
+
+    private async pruneOldRuns(): Promise<void> {
+        const runPaths = await this.listRunPaths();
+        const oldRunPaths = runPaths.slice(0, Math.max(0, runPaths.length - this.MAX_SAVED_RUNS));
+
+        for (const path of oldRunPaths) {
+            await this.app.vault.adapter.remove(path);
+        }
+    }
+
+    /**
+     * Lists the saved runs, oldest first.
+     */
+    private async listRunPaths(): Promise<string[]> {
+        const folderPath = normalizePath(this.journalFolder);
+        if (!await this.app.vault.adapter.exists(folderPath)) {
+            return [];
+        }
+
+        const { files } = await this.app.vault.adapter.list(folderPath);
+        const runTime = (path: string) => parseInt(path.split('/').pop() ?? '', 10);
+
+        return files
+            .filter(path => path.endsWith('.json') && !isNaN(runTime(path)))
+            .sort((a, b) => runTime(a) - runTime(b));
+    }
+}
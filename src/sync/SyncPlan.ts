@@ -0,0 +1,80 @@
+import { TFile } from 'obsidian';
+import { isPlainObject } from 'src/utils';
+import { SyncState } from '../settings';
+import { MusicIds } from './types';
+
+/**
+ * A change to a single frontmatter field. Nested fields are named with dots, e.g. `music_ids.spotify_id`.
+ */
+export interface FieldChange {
+    field: string;
+    oldValue: unknown;
+    newValue: unknown;
+}
+
+export interface PlannedCreation {
+    entityType: 'artist' | 'album' | 'track' | 'playlist';
+    title: string;
+    folderPath: string;
+    apply: () => Promise<void>;
+}
+
+export interface PlannedUpdate {
+    file: TFile;
+    changes: FieldChange[];
+    /** The writes to the file, in the order they were planned */
+    apply: (() => Promise<void>)[];
+}
+
+export interface PlannedLibraryStatusChange {
+    file: TFile;
+    ids: MusicIds;
+    title: string;
+    inLibrary: boolean;
+    apply: () => Promise<void>;
+}
+
+/**
+ * The changes a sync would make to the vault, recorded instead of written so they can be reviewed first.
+ */
+export interface SyncPlan {
+    creations: PlannedCreation[];
+    updates: PlannedUpdate[];
+    libraryStatusChanges: PlannedLibraryStatusChange[];
+    /** The library statuses synced by the plan, by primary ID, recorded into `library_status_baseline` when it is applied */
+    libraryStatusBaseline: Record<string, boolean>;
+    /** The checkpoints of the plan, recorded into `sync_state` when it is applied */
+    syncState?: SyncState;
+}
+
+export function createEmptySyncPlan(): SyncPlan {
+    return { creations: [], updates: [], libraryStatusChanges: [], libraryStatusBaseline: {} };
+}
+
+export function isSyncPlanEmpty(plan: SyncPlan): boolean {
+    return plan.creations.length === 0 && plan.updates.length === 0 && plan.libraryStatusChanges.length === 0;
+}
+
+/**
+ * Lists the fields that differ between two versions of a file's frontmatter, recursing into nested objects.
+ */
+export function diffFrontmatter(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+    fieldPrefix = ''
+): FieldChange[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    return Array.from(fields).flatMap(field => {
+        const oldValue = before[field];
+        const newValue = after[field];
+
+        if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+            return diffFrontmatter(oldValue, newValue, `${fieldPrefix}${field}.`);
+        }
+
+        return JSON.stringify(oldValue) === JSON.stringify(newValue)
+            ? []
+            : [{ field: `${fieldPrefix}${field}`, oldValue, newValue }];
+    });
+}
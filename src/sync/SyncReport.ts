@@ -0,0 +1,53 @@
+import { TFile, moment } from 'obsidian';
+
+export interface SyncReportEntry {
+    file: TFile;
+    title: string;
+}
+
+export interface SyncReportError {
+    /** The title of the entity (or playlist) that failed */
+    title: string;
+    message: string;
+}
+
+/**
+ * Collects what a single sync changed in the catalog, so that it can be written to a report note afterwards.
+ */
+export class SyncReport {
+    readonly startedAt = moment();
+
+    readonly createdFiles: SyncReportEntry[] = [];
+    readonly refreshedFiles: SyncReportEntry[] = [];
+    readonly leftLibraryFiles: SyncReportEntry[] = [];
+    readonly errors: SyncReportError[] = [];
+
+    constructor(readonly runName: string) { }
+
+    get isEmpty(): boolean {
+        return this.createdFiles.length === 0
+            && this.refreshedFiles.length === 0
+            && this.leftLibraryFiles.length === 0
+            && this.errors.length === 0;
+    }
+
+    recordCreatedFile(file: TFile, title: string): void {
+        this.createdFiles.push({ file, title });
+    }
+
+    recordRefreshedFile(file: TFile, title: string): void {
+        // Files created by this sync are only listed as new
+        const isListed = [...this.createdFiles, ...this.refreshedFiles].some(entry => entry.file.path === file.path);
+        if (!isListed) {
+            this.refreshedFiles.push({ file, title });
+        }
+    }
+
+    recordLeftLibrary(file: TFile, title: string): void {
+        this.leftLibraryFiles.push({ file, title });
+    }
+
+    recordError(title: string, error: unknown): void {
+        this.errors.push({ title, message: error instanceof Error ? error.message : String(error) });
+    }
+}
@@ -0,0 +1,66 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { ObsidianSpotifySettings } from '../settings';
+import { SyncReport, SyncReportEntry } from './SyncReport';
+
+/**
+ * Writes sync reports to one note per day, appending a section for each sync.
+ */
+export class SyncReportWriter {
+    constructor(
+        private app: App,
+        private settings: ObsidianSpotifySettings,
+        private generateFileLink: (file: TFile, displayTitle: string) => string
+    ) { }
+
+    get reportsPath(): string {
+        return `${this.settings.music_catalog_base_path}/${this.settings.sync_reports_path}`;
+    }
+
+    /**
+     * Appends the report to the report note of the day the sync started, creating the note if needed.
+     * Syncs that changed nothing are not reported.
+     */
+    async writeReport(report: SyncReport): Promise<void> {
+        if (report.isEmpty) {
+            return;
+        }
+
+        const folderPath = normalizePath(this.reportsPath);
+        if (!this.app.vault.getAbstractFileByPath(folderPath)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+
+        const date = report.startedAt.clone().local();
+        const filePath = normalizePath(`${folderPath}/Sync Report ${date.format('YYYY-MM-DD')}.md`);
+        const section = this.renderReport(report);
+
+        const existing = this.app.vault.getFileByPath(filePath);
+        if (existing) {
+            await this.app.vault.process(existing, content => `${content.trimEnd()}\n\n${section}`);
+        } else {
+            await this.app.vault.create(filePath, `---\ndate: ${date.format('YYYY-MM-DD')}\n---\n\n${section}`);
+        }
+    }
+
+    private renderReport(report: SyncReport): string {
+        const lines = [`## ${report.startedAt.clone().local().format('HH:mm')} ${report.runName}`];
+
+        const renderEntries = (heading: string, entries: SyncReportEntry[]) => {
+            if (entries.length > 0) {
+                lines.push('', `### ${heading} (${entries.length})`);
+                lines.push(...entries.map(entry => `- ${this.generateFileLink(entry.file, entry.title)}`));
+            }
+        };
+
+        renderEntries('New notes', report.createdFiles);
+        renderEntries('Refreshed notes', report.refreshedFiles);
+        renderEntries('Left the library', report.leftLibraryFiles);
+
+        if (report.errors.length > 0) {
+            lines.push('', `### Errors (${report.errors.length})`);
+            lines.push(...report.errors.map(error => `- ${error.title}: ${error.message}`));
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+}
@@ -0,0 +1,65 @@
+import { App, moment, normalizePath } from 'obsidian';
+import { ObsidianSpotifySettings } from '../settings';
+import { TopItemsTimeRange } from './music-sources/MusicLibrarySource';
+
+export interface TopItemsRanking {
+    timeRange: TopItemsTimeRange;
+    /** Links to (or titles of) the top artists, highest ranked first */
+    artists: string[];
+    /** Links to (or titles of) the top tracks, highest ranked first */
+    tracks: string[];
+}
+
+/**
+ * Writes dated snapshot notes of the user's top artists and tracks.
+ */
+export class TopItemsSnapshotWriter {
+    private readonly TIME_RANGE_LABELS: Record<TopItemsTimeRange, string> = {
+        short_term: 'Last 4 Weeks',
+        medium_term: 'Last 6 Months',
+        long_term: 'Last Year'
+    };
+
+    constructor(
+        private app: App,
+        private settings: ObsidianSpotifySettings
+    ) { }
+
+    get snapshotsPath(): string {
+        return `${this.settings.music_catalog_base_path}/${this.settings.top_snapshots_path}`;
+    }
+
+    /**
+     * Writes the snapshot note for the given date, replacing any earlier snapshot from the same day.
+     */
+    async writeSnapshot(date: moment.Moment, rankings: TopItemsRanking[]): Promise<void> {
+        const folderPath = normalizePath(this.snapshotsPath);
+        if (!this.app.vault.getAbstractFileByPath(folderPath)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+
+        const filePath = normalizePath(`${folderPath}/Top Music ${date.format('YYYY-MM-DD')}.md`);
+        const content = this.renderSnapshot(date, rankings);
+
+        const existing = this.app.vault.getFileByPath(filePath);
+        if (existing) {
+            await this.app.vault.modify(existing, content);
+        } else {
+            await this.app.vault.create(filePath, content);
+        }
+    }
+
+    private renderSnapshot(date: moment.Moment, rankings: TopItemsRanking[]): string {
+        const sections = rankings.map(ranking => [
+            `## ${this.TIME_RANGE_LABELS[ranking.timeRange]}`,
+            '',
+            '### Artists',
+            ...ranking.artists.map((artist, index) => `${index + 1}. ${artist}`),
+            '',
+            '### Tracks',
+            ...ranking.tracks.map((track, index) => `${index + 1}. ${track}`),
+        ].join('\n'));
+
+        return `---\ndate: ${date.format('YYYY-MM-DD')}\n---\n\n${sections.join('\n\n')}\n`;
+    }
+}
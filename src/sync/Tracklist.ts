@@ -0,0 +1,35 @@
+import { SimplifiedTrack } from './types';
+
+/**
+ * Labels a track of an album tracklist with its position, adding the disc number for albums with several discs.
+ * Every label starts with a position, so that titles which look like one (e.g. "1. Allegro") are read back whole.
+ * @param listPosition The position of the track in the tracklist, counting from 1, for tracks without a track number
+ * @example formatTracklistTitle({ title: "Airbag", trackNumber: 1 }, 1, false) => "01. Airbag"
+ * @example formatTracklistTitle({ title: "Airbag", trackNumber: 1, discNumber: 2 }, 1, true) => "2-01. Airbag"
+ * @example formatTracklistTitle({ title: "1. Allegro" }, 3, false) => "03. 1. Allegro"
+ */
+export function formatTracklistTitle(track: SimplifiedTrack, listPosition: number, isMultiDisc: boolean): string {
+    const trackNumber = String(track.trackNumber || listPosition).padStart(2, '0');
+    const position = isMultiDisc ? `${track.discNumber ?? 1}-${trackNumber}` : trackNumber;
+    return `${position}. ${track.title}`;
+}
+
+/**
+ * Reads back the position and title from a label made by `formatTracklistTitle`.
+ */
+export function parseTracklistTitle(text: string): { title: string, trackNumber?: number, discNumber?: number } {
+    const match = text.match(/^(?:(\d+)-)?(\d{2,})\.\s+(.+)$/);
+    if (!match) {
+        return { title: text };
+    }
+
+    return {
+        title: match[3],
+        trackNumber: Number(match[2]),
+        discNumber: match[1] ? Number(match[1]) : undefined
+    };
+}
+
+export function isMultiDisc(tracks: SimplifiedTrack[]): boolean {
+    return tracks.some(track => (track.discNumber ?? 1) > 1);
+}
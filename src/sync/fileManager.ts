@@ -1,27 +1,63 @@
 import { App, TFile, TFolder, normalizePath } from 'obsidian';
-import { LocalTrackManager } from './LocalTrackManager';
+import { LocalTrackManager } from './localTrackManager';
 import { ObsidianSpotifySettings } from '../settings';
 import { MusicIdIndex } from './MusicIdIndex';
 import { FrontmatterWriter } from './FrontmatterWriter';
 import { FrontmatterReader } from './FrontmatterReader';
-import { Album, Artist, SimplifiedAlbum, SimplifiedArtist, Track } from "./types";
+import { Album, Artist, CatalogEntityType, Playlist, PlayStats, SimplifiedAlbum, SimplifiedArtist, SimplifiedPlaylist, SimplifiedTrack, Track } from "./types";
 import { MusicEntity, MusicFile } from './types';
+import { TopItemsTimeRange } from './music-sources/MusicLibrarySource';
+import { FieldChange, PlannedCreation, SyncPlan, createEmptySyncPlan } from './SyncPlan';
+import { SyncJournal } from './SyncJournal';
+import { SyncReport } from './SyncReport';
+import { getFileNameTokens, renderFileName, renderFolderPath } from './FileNameTemplate';
+import { BodyTemplateRenderer } from './BodyTemplateRenderer';
+import { FrontmatterSchema } from './FrontmatterSchema';
+import { CoverArtDownloader } from './CoverArtDownloader';
 
 export class FileManager {
+    // Subfolder of each entity folder that holds notes archived by the removal policy.
+    // Prefixed so that it can't be mistaken for the folder of an artist or album called "Archive".
+    private readonly ARCHIVE_FOLDER = '_Archive';
+
     private readonly frontmatterReader: FrontmatterReader;
     private readonly frontmatterWriter: FrontmatterWriter;
+    private readonly bodyTemplateRenderer: BodyTemplateRenderer;
+    private readonly coverArtDownloader: CoverArtDownloader;
+
+    // Album notes whose tracklist has tracks without notes, by path, so they can be linked once the track notes exist
+    private readonly unlinkedAlbumTracks = new Map<string, { album: MusicFile<Album>, tracks: SimplifiedTrack[] }>();
+    // Likewise for playlist notes, whose tracks are created after them when a previewed sync is applied
+    private readonly unlinkedPlaylistTracks = new Map<string, { playlist: MusicFile<Playlist>, tracks: SimplifiedTrack[] }>();
 
     constructor(
         private app: App,
-        private settings: ObsidianSpotifySettings
+        private settings: ObsidianSpotifySettings,
+        private journal?: SyncJournal
     ) {
-        this.frontmatterReader = new FrontmatterReader(this.app);
+        const frontmatterSchema = new FrontmatterSchema(
+            this.settings.frontmatter_field_keys ?? {},
+            this.settings.disabled_frontmatter_fields ?? []
+        );
+        this.frontmatterReader = new FrontmatterReader(this.app, frontmatterSchema);
         this.frontmatterWriter = new FrontmatterWriter(
+            this.app,
+            this.settings,
+            frontmatterSchema,
+            (artist) => this.generateArtistLink(artist),
+            (album) => this.generateAlbumLink(album),
+            (track) => this.generateTrackLink(track),
+            (playlist) => this.generatePlaylistLink(playlist),
+            this.journal
+        );
+        this.bodyTemplateRenderer = new BodyTemplateRenderer(
             this.app,
             this.settings,
             (artist) => this.generateArtistLink(artist),
-            (album) => this.generateAlbumLink(album)
+            (album) => this.generateAlbumLink(album),
+            (track) => this.generateTrackLink(track)
         );
+        this.coverArtDownloader = new CoverArtDownloader(this.app, this.settings);
     }
 
     get artistsPath(): string {
@@ -36,12 +72,56 @@ export class FileManager {
         return `${this.settings.music_catalog_base_path}/${this.settings.tracks_path}`;
     }
 
+    get playlistsPath(): string {
+        return `${this.settings.music_catalog_base_path}/${this.settings.playlists_path}`;
+    }
+
+    // While planning, changes are recorded here instead of being written to the vault
+    private syncPlan?: SyncPlan;
+
+    get isPlanning(): boolean {
+        return !!this.syncPlan;
+    }
+
+    /**
+     * Records file creations and frontmatter changes into a plan instead of writing them, until `stopPlanning` is called.
+     * Each planned change can be applied later on its own.
+     */
+    startPlanning(): SyncPlan {
+        this.syncPlan = createEmptySyncPlan();
+        this.frontmatterWriter.setDryRun(true);
+        return this.syncPlan;
+    }
+
+    stopPlanning(): void {
+        this.syncPlan = undefined;
+        this.frontmatterWriter.setDryRun(false);
+    }
+
+    // While a sync is running, created files and library departures are recorded here for its report
+    private syncReport?: SyncReport;
+
+    setSyncReport(report: SyncReport | undefined): void {
+        this.syncReport = report;
+    }
+
     async ensureDirectoryExists(path: string): Promise<void> {
+        if (this.syncPlan) {
+            return;
+        }
+
         const normalizedPath = normalizePath(path);
         const exists = this.app.vault.getAbstractFileByPath(normalizedPath);
         if (!exists) {
-            await this.app.vault.createFolder(normalizedPath);
-            console.log(`Created directory: ${normalizedPath}`);
+            try {
+                await this.app.vault.createFolder(normalizedPath);
+                console.log(`Created directory: ${normalizedPath}`);
+            } catch (error) {
+                // Files written concurrently can race to create the same folder
+                if (!this.app.vault.getAbstractFileByPath(normalizedPath)) {
+                    throw error;
+                }
+            }
         }
     }
 
@@ -78,6 +158,17 @@ export class FileManager {
         return this.trackIndex;
     }
 
+    private playlistIndex?: MusicIdIndex<MusicFile<Playlist>>;
+    async getPlaylistIndex(): Promise<MusicIdIndex<MusicFile<Playlist>>> {
+        if (!this.playlistIndex) {
+            this.playlistIndex = await this.buildIndex(
+                this.playlistsPath,
+                file => this.frontmatterReader.parsePlaylistFile(file)
+            );
+        }
+        return this.playlistIndex;
+    }
+
     private async buildIndex<T extends MusicEntity>(
         folderPath: string,
         parseFile: (file: TFile) => MusicFile<T> | undefined
@@ -90,73 +181,412 @@ export class FileManager {
         return MusicIdIndex.fromItems(entityFiles);
     }
 
+    private get catalogFolderPaths(): string[] {
+        return [this.artistsPath, this.albumsPath, this.tracksPath, this.playlistsPath].map(path => normalizePath(path));
+    }
+
+    /**
+     * Lists the notes in a folder and all of its subfolders, so that notes are found wherever the folder layout puts them.
+     * The folders of other entity types are skipped, since they can be inside this one (e.g. when the artists folder is the base folder).
+     */
     private getFilesInFolder(folderPath: string): TFile[] {
-        const folder = this.app.vault.getFolderByPath(folderPath);
+        const folder = this.app.vault.getFolderByPath(normalizePath(folderPath));
+        if (!folder) {
+            return [];
+        }
 
-        return (folder?.children ?? [])
-            .filter((file): file is TFile => file instanceof TFile && file.extension === "md");
+        const otherCatalogFolderPaths = this.catalogFolderPaths.filter(path => path !== folder.path);
+        const files: TFile[] = [];
+        const collectFiles = (current: TFolder) => current.children.forEach(child => {
+            if (child instanceof TFile && child.extension === "md") {
+                files.push(child);
+            } else if (child instanceof TFolder && !otherCatalogFolderPaths.includes(child.path)) {
+                collectFiles(child);
+            }
+        });
+        collectFiles(folder);
+        return files;
+    }
+
+    /**
+     * Lists the notes of every entity type in the catalog.
+     */
+    async getCatalog(): Promise<{ entityType: CatalogEntityType, files: MusicFile<MusicEntity>[] }[]> {
+        return [
+            { entityType: 'artist', files: (await this.getArtistIndex()).values() },
+            { entityType: 'album', files: (await this.getAlbumIndex()).values() },
+            { entityType: 'track', files: (await this.getTrackIndex()).values() },
+            { entityType: 'playlist', files: (await this.getPlaylistIndex()).values() },
+        ];
     }
 
     async updateArtistFile(artist: MusicFile<Artist>): Promise<void> {
+        artist = await this.withLocalCover(artist, artist.file);
+
         const index = await this.getArtistIndex();
         index.set(artist.ids, artist);
 
-        await this.frontmatterWriter.updateArtistFrontmatter(artist);
+        await this.writeFrontmatter(artist.file, () => this.frontmatterWriter.updateArtistFrontmatter(artist));
     }
 
     async updateAlbumFile(album: MusicFile<Album>): Promise<void> {
+        album = await this.withLocalCover(album, album.file);
+
         const index = await this.getAlbumIndex();
         index.set(album.ids, album);
 
-        await this.frontmatterWriter.updateAlbumFrontmatter(album);
+        const trackIndex = await this.getTrackIndex();
+        const unlinkedTracks = album.tracks.filter(track => !trackIndex.has(track.ids));
+        if (unlinkedTracks.length > 0) {
+            this.unlinkedAlbumTracks.set(album.file.path, { album, tracks: unlinkedTracks });
+        } else {
+            this.unlinkedAlbumTracks.delete(album.file.path);
+        }
+
+        await this.writeFrontmatter(album.file, () => this.frontmatterWriter.updateAlbumFrontmatter(album));
+    }
+
+    /**
+     * Rewrites the tracklists of album notes that were written before the notes of some of their tracks,
+     * so that they link to the track notes created since.
+     */
+    async linkAlbumTracklists(): Promise<void> {
+        const trackIndex = await this.getTrackIndex();
+
+        for (const { album, tracks } of Array.from(this.unlinkedAlbumTracks.values())) {
+            if (tracks.some(track => trackIndex.has(track.ids))) {
+                await this.updateAlbumFile(album);
+            }
+        }
     }
 
     async updateTrackFile(track: MusicFile<Track>): Promise<void> {
+        track = await this.withLocalCover(track, track.file);
+
         const index = await this.getTrackIndex();
         index.set(track.ids, track);
 
-        await this.frontmatterWriter.updateTrackFrontmatter(track);
+        await this.writeFrontmatter(track.file, () => this.frontmatterWriter.updateTrackFrontmatter(track));
+    }
+
+    async updatePlaylistFile(playlist: MusicFile<Playlist>): Promise<void> {
+        playlist = await this.withLocalCover(playlist, playlist.file);
+
+        const index = await this.getPlaylistIndex();
+        index.set(playlist.ids, playlist);
+
+        const trackIndex = await this.getTrackIndex();
+        const unlinkedTracks = playlist.tracks.filter(track => !trackIndex.has(track.ids));
+        if (unlinkedTracks.length > 0) {
+            this.unlinkedPlaylistTracks.set(playlist.file.path, { playlist, tracks: unlinkedTracks });
+        } else {
+            this.unlinkedPlaylistTracks.delete(playlist.file.path);
+        }
+
+        await this.writeFrontmatter(playlist.file, () => this.frontmatterWriter.updatePlaylistFrontmatter(playlist));
+    }
+
+    /**
+     * Rewrites the track lists of playlist notes that were written before the notes of some of their tracks,
+     * so that they link to the track notes created since.
+     */
+    async linkPlaylistTracklists(): Promise<void> {
+        const trackIndex = await this.getTrackIndex();
+
+        for (const { playlist, tracks } of Array.from(this.unlinkedPlaylistTracks.values())) {
+            if (tracks.some(track => trackIndex.has(track.ids))) {
+                await this.updatePlaylistFile(playlist);
+            }
+        }
+    }
+
+    async updateDiscography(artist: MusicFile<Artist>, albums: Album[]): Promise<void> {
+        await this.writeFrontmatter(artist.file, () => this.frontmatterWriter.updateDiscographyFrontmatter(artist, albums));
+    }
+
+    async updatePlayStats(entity: MusicFile<MusicEntity>, stats: PlayStats): Promise<void> {
+        await this.writeFrontmatter(entity.file, () => this.frontmatterWriter.updatePlayStatsFrontmatter(entity, stats));
+    }
+
+    /**
+     * Sets whether the entity is in the library. When that changes, the removal policy is applied to its file,
+     * or reversed if the entity is back in the library.
+     */
+    async updateLibraryStatus(entity: MusicFile<MusicEntity>, inLibrary: boolean): Promise<void> {
+        if (this.syncPlan) {
+            if (!!entity.sources.in_library !== inLibrary) {
+                this.syncPlan.libraryStatusChanges.push({
+                    file: entity.file,
+                    ids: entity.ids,
+                    title: entity.title,
+                    inLibrary,
+                    apply: () => this.updateLibraryStatus(entity, inLibrary)
+                });
+            }
+            return;
+        }
+
+        const wasInLibrary = !!entity.sources.in_library;
+        if (wasInLibrary && !inLibrary) {
+            this.syncReport?.recordLeftLibrary(entity.file, entity.title);
+        }
+
+        entity.sources.in_library = inLibrary;
+        await this.frontmatterWriter.updateLibraryStatusFrontmatter(entity, inLibrary);
+
+        if (wasInLibrary !== inLibrary) {
+            await this.applyRemovalPolicy(entity, !inLibrary);
+        }
+    }
+
+    /**
+     * Tags, archives or dates the file of an entity removed from the library, depending on the removal policy.
+     * When the entity is saved again, whatever any policy did is undone.
+     */
+    private async applyRemovalPolicy(entity: MusicFile<MusicEntity>, removed: boolean): Promise<void> {
+        const policy = this.settings.removal_policy;
+        await this.frontmatterWriter.updateRemovalFrontmatter(entity, removed, policy);
+
+        const folder = entity.file.parent;
+        const isArchived = folder?.name === this.ARCHIVE_FOLDER;
+
+        if (removed && policy === 'archive' && folder && !isArchived) {
+            await this.moveFile(entity.file, `${folder.path}/${this.ARCHIVE_FOLDER}`);
+        } else if (!removed && isArchived && folder?.parent) {
+            await this.moveFile(entity.file, folder.parent.path);
+        }
+    }
+
+    /**
+     * Moves a file to another folder, keeping links to it up to date.
+     */
+    private async moveFile(file: TFile, folderPath: string): Promise<void> {
+        await this.ensureDirectoryExists(folderPath);
+
+        const previousPath = file.path;
+        await this.app.fileManager.renameFile(file, this.getAvailablePath(folderPath, file.basename));
+        this.journal?.recordMovedFile(previousPath, file.path);
+    }
+
+    async updateTopRanks(
+        entity: MusicFile<MusicEntity>,
+        date: moment.Moment,
+        ranks: Partial<Record<TopItemsTimeRange, number>>
+    ): Promise<void> {
+        await this.writeFrontmatter(entity.file, () => this.frontmatterWriter.updateTopRankFrontmatter(entity, date, ranks));
+    }
+
+    /**
+     * Merges duplicate notes into the note that replaces them: their frontmatter is folded into its frontmatter,
+     * their text is appended to its text, links to them are pointed at it, and they are moved to the trash.
+     */
+    async mergeFiles(survivor: MusicFile<MusicEntity>, duplicates: MusicFile<MusicEntity>[]): Promise<void> {
+        const duplicateFrontmatters = duplicates.map(duplicate =>
+            structuredClone(this.app.metadataCache.getFileCache(duplicate.file)?.frontmatter ?? {})
+        );
+        await this.frontmatterWriter.mergeFrontmatter(survivor.file, duplicateFrontmatters);
+
+        const survivorBody = this.stripFrontmatter(await this.app.vault.read(survivor.file)).trim();
+        const duplicateBodies: string[] = [];
+        for (const duplicate of duplicates) {
+            const body = this.stripFrontmatter(await this.app.vault.read(duplicate.file)).trim();
+            if (body && body !== survivorBody && !duplicateBodies.includes(body)) {
+                duplicateBodies.push(body);
+            }
+        }
+
+        if (duplicateBodies.length > 0) {
+            await this.app.vault.process(survivor.file, content =>
+                [content.trimEnd(), ...duplicateBodies].join('\n\n') + '\n'
+            );
+        }
+
+        for (const duplicate of duplicates) {
+            await this.redirectLinks(duplicate.file, survivor.file);
+            await this.app.vault.trash(duplicate.file, true);
+        }
+
+        // The indexes may still hold the duplicates, so they are rebuilt when next needed
+        this.artistIndex = undefined;
+        this.albumIndex = undefined;
+        this.trackIndex = undefined;
+        this.playlistIndex = undefined;
+    }
+
+    /**
+     * Rewrites the wikilinks and markdown links to a file, in every note that links to it, to point at another file.
+     * Headings, block references and display text are kept.
+     */
+    private async redirectLinks(from: TFile, to: TFile): Promise<void> {
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+        const linkingPaths = Object.keys(resolvedLinks).filter(path => resolvedLinks[path][from.path]);
+
+        for (const path of linkingPaths) {
+            const linkingFile = this.app.vault.getFileByPath(path);
+            if (!linkingFile) {
+                continue;
+            }
+
+            const linksToFrom = (linkPath: string) =>
+                this.app.metadataCache.getFirstLinkpathDest(linkPath, path)?.path === from.path;
+            const decodeLinkPath = (linkPath: string) => {
+                try {
+                    return decodeURI(linkPath);
+                } catch {
+                    return linkPath;
+                }
+            };
+
+            await this.app.vault.process(linkingFile, content => content
+                .replace(/\[\[([^\]|#]+)([^\]|]*)((?:\|[^\]]*)?)\]\]/g, (link, linkPath: string, subpath: string, alias: string) =>
+                    linksToFrom(linkPath.trim())
+                        ? `[[${this.app.metadataCache.fileToLinktext(to, path, true)}${subpath}${alias}]]`
+                        : link
+                )
+                .replace(/\]\(([^)#\s]+)(#[^)\s]*)?\)/g, (link, linkPath: string, subpath = '') =>
+                    linksToFrom(decodeLinkPath(linkPath))
+                        ? `](${encodeURI(this.app.metadataCache.fileToLinktext(to, path, false))}${subpath})`
+                        : link
+                )
+            );
+        }
+    }
+
+    private stripFrontmatter(content: string): string {
+        return content.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '');
     }
 
     async createArtistFile(artist: Artist): Promise<void> {
-        const fileName = this.buildSafeFileName(artist.title);
+        const isPlanned = this.planCreation({
+            entityType: 'artist',
+            title: artist.title,
+            folderPath: this.getEntityFolderPath('artist', artist),
+            apply: () => this.createArtistFile(artist)
+        });
+        if (isPlanned) {
+            return;
+        }
+
+        artist = await this.withLocalCover(artist);
+        const fileName = this.buildFileName('artist', artist);
 
         const file = await this.createFile(
             fileName,
-            this.artistsPath
+            this.getEntityFolderPath('artist', artist),
+            await this.bodyTemplateRenderer.renderArtistBody(artist)
         );
 
-        this.updateArtistFile({ file, ...artist });
+        await this.updateArtistFile({ file, ...artist });
+        this.syncReport?.recordCreatedFile(file, artist.title);
     }
 
     async createAlbumFile(album: Album): Promise<void> {
-        const primaryArtist = album.artists[0]?.title || "Unknown Artist";
-        const fileName = this.buildSafeFileName(album.title, primaryArtist);
+        const isPlanned = this.planCreation({
+            entityType: 'album',
+            title: album.title,
+            folderPath: this.getEntityFolderPath('album', album),
+            apply: () => this.createAlbumFile(album)
+        });
+        if (isPlanned) {
+            return;
+        }
+
+        album = await this.withLocalCover(album);
+        const fileName = this.buildFileName('album', album);
 
         const file = await this.createFile(
             fileName,
-            this.albumsPath
+            this.getEntityFolderPath('album', album),
+            await this.bodyTemplateRenderer.renderAlbumBody(album)
         );
 
-        this.updateAlbumFile({ file, ...album });
+        await this.updateAlbumFile({ file, ...album });
+        this.syncReport?.recordCreatedFile(file, album.title);
     }
 
     async createTrackFile(track: Track): Promise<void> {
-        const primaryArtist = track.artists[0]?.title || "Unknown Artist";
-        const fileName = this.buildSafeFileName(track.title, track.album?.title, primaryArtist);
+        const isPlanned = this.planCreation({
+            entityType: 'track',
+            title: track.title,
+            folderPath: this.getEntityFolderPath('track', track),
+            apply: () => this.createTrackFile(track)
+        });
+        if (isPlanned) {
+            return;
+        }
+
+        track = await this.withLocalCover(track);
+        const fileName = this.buildFileName('track', track);
+
+        const file = await this.createFile(
+            fileName,
+            this.getEntityFolderPath('track', track),
+            await this.bodyTemplateRenderer.renderTrackBody(track)
+        );
+
+        await this.updateTrackFile({ file, ...track });
+        this.syncReport?.recordCreatedFile(file, track.title);
+    }
+
+    async createPlaylistFile(playlist: Playlist): Promise<void> {
+        const isPlanned = this.planCreation({
+            entityType: 'playlist',
+            title: playlist.title,
+            folderPath: this.getEntityFolderPath('playlist', playlist),
+            apply: () => this.createPlaylistFile(playlist)
+        });
+        if (isPlanned) {
+            return;
+        }
+
+        playlist = await this.withLocalCover(playlist);
+        const fileName = this.buildFileName('playlist', playlist);
 
         const file = await this.createFile(
             fileName,
-            this.tracksPath
+            this.getEntityFolderPath('playlist', playlist),
+            await this.bodyTemplateRenderer.renderPlaylistBody(playlist)
         );
 
-        this.updateTrackFile({ file, ...track });
+        await this.updatePlaylistFile({ file, ...playlist });
+        this.syncReport?.recordCreatedFile(file, playlist.title);
+    }
+
+    /**
+     * Swaps the cover URL of the entity for a link to the downloaded image, if covers are downloaded
+     * and the note doesn't have a cover yet. If the download fails, the URL is kept.
+     */
+    private async withLocalCover<T extends MusicEntity>(entity: T, file?: TFile): Promise<T> {
+        if (!this.settings.download_cover_art || this.syncPlan || !this.coverArtDownloader.isRemoteImage(entity.image)) {
+            return entity;
+        }
+
+        if (file && this.frontmatterReader.getCover(file)) {
+            return entity;
+        }
+
+        try {
+            return { ...entity, image: await this.coverArtDownloader.download(entity.image) };
+        } catch (error) {
+            console.warn(`Failed to download the cover of "${entity.title}":`, error);
+            return entity;
+        }
     }
 
     async createFile(
         fileName: string,
-        folderPath: string
+        folderPath: string,
+        body = ''
     ): Promise<TFile> {
+        await this.ensureDirectoryExists(folderPath);
+
+        const filePath = this.getAvailablePath(folderPath, fileName);
+        const file = await this.app.vault.create(filePath, `---\n---\n\n${body}`);
+        this.journal?.recordCreatedFile(file.path);
+        return file;
+    }
+
+    private getAvailablePath(folderPath: string, fileName: string): string {
         let finalName = fileName;
         let counter = 1;
 
@@ -166,26 +596,211 @@ export class FileManager {
             counter++;
         }
 
-        const filePath = `${folderPath}/${finalName}.md`;
-        return await this.app.vault.create(filePath, '---\n---\n\n');
+        return `${folderPath}/${finalName}.md`;
     }
 
     /**
-     * Combines non-empty strings into a safe filename, joined with " - "
-     * @example buildSafeFileName("Song Name", "Album", "Artist") => "Song Name - Album - Artist"
+     * Runs a frontmatter write, or while planning, records the changes it would make.
      */
-    buildSafeFileName(...parts: (string | undefined)[]): string {
-        return parts
-            .filter((part): part is string => !!part && !!part.trim())
-            .map(part => part
-                .replace(/[<>:"/\\|?*-]/g, '')
-                .replace(/\s+/g, ' ')
-                .trim()
-            )
-            .join(' - ');
+    private async writeFrontmatter(file: TFile, write: () => Promise<void>): Promise<void> {
+        await write();
+
+        if (!this.syncPlan) {
+            return;
+        }
+
+        const changes = this.frontmatterWriter.takeRecordedChanges(file);
+        if (changes.length > 0) {
+            this.addPlannedUpdate(this.syncPlan, file, changes, write);
+        }
+    }
+
+    /**
+     * Merges the changes into any update already planned for the file, so that each file is listed once.
+     */
+    private addPlannedUpdate(plan: SyncPlan, file: TFile, changes: FieldChange[], write: () => Promise<void>): void {
+        const existing = plan.updates.find(update => update.file.path === file.path);
+        if (!existing) {
+            plan.updates.push({ file, changes, apply: [write] });
+            return;
+        }
+
+        existing.changes = [
+            ...existing.changes.filter(change => !changes.some(newChange => newChange.field === change.field)),
+            ...changes
+        ];
+        existing.apply.push(write);
     }
 
-    private async generateArtistLink(artist: SimplifiedArtist): Promise<string> {
+    /**
+     * While planning, records the creation instead of creating the file.
+     * @returns Whether the creation was planned
+     */
+    private planCreation(creation: PlannedCreation): boolean {
+        if (!this.syncPlan) {
+            return false;
+        }
+
+        this.syncPlan.creations.push(creation);
+        return true;
+    }
+
+    /**
+     * Renders the file name template configured for the entity type
+     * @example buildFileName("track", track) with "{title} - {album} - {artist}" => "Song Name - Album - Artist"
+     */
+    buildFileName(entityType: CatalogEntityType, entity: MusicEntity): string {
+        const templates: Record<CatalogEntityType, string> = {
+            artist: this.settings.artist_file_name_template,
+            album: this.settings.album_file_name_template,
+            track: this.settings.track_file_name_template,
+            playlist: this.settings.playlist_file_name_template
+        };
+
+        return renderFileName(templates[entityType], getFileNameTokens(entityType, entity));
+    }
+
+    /**
+     * Renames catalog notes whose names don't match the file name templates, updating links to them.
+     * Notes stay in their folder, and a number is appended if the new name is taken.
+     * @returns The number of renamed notes
+     */
+    async renameFilesToMatchTemplates(): Promise<number> {
+        const catalog = await this.getCatalog();
+
+        let renamedCount = 0;
+        for (const { entityType, files } of catalog) {
+            for (const musicFile of files) {
+                const fileName = this.buildFileName(entityType, musicFile);
+                const { file } = musicFile;
+
+                // Names made unique by createFile, e.g. "Name (1)", already match
+                const isMatching = file.basename === fileName
+                    || (file.basename.startsWith(`${fileName} (`) && /^ \(\d+\)$/.test(file.basename.slice(fileName.length)));
+                if (isMatching || !file.parent) {
+                    continue;
+                }
+
+                const previousPath = file.path;
+                await this.app.fileManager.renameFile(file, this.getAvailablePath(file.parent.path, fileName));
+                console.log(`Renamed ${previousPath} to ${file.path}`);
+                renamedCount++;
+            }
+        }
+
+        return renamedCount;
+    }
+
+    /**
+     * Downloads the covers of notes whose cover is still an image URL, and points the notes at the downloaded images.
+     * @returns The number of notes whose cover was downloaded
+     */
+    async downloadCoverArt(): Promise<number> {
+        const catalog = await this.getCatalog();
+
+        let downloadedCount = 0;
+        for (const { files } of catalog) {
+            for (const { file } of files) {
+                const cover = this.frontmatterReader.getCover(file);
+                if (!this.coverArtDownloader.isRemoteImage(cover)) {
+                    continue;
+                }
+
+                try {
+                    await this.frontmatterWriter.updateCoverFrontmatter(file, await this.coverArtDownloader.download(cover));
+                    downloadedCount++;
+                } catch (error) {
+                    console.warn(`Failed to download the cover of ${file.path}:`, error);
+                }
+            }
+        }
+
+        return downloadedCount;
+    }
+
+    /**
+     * Rewrites the frontmatter of notes whose fields are still stored under the default keys,
+     * moving them to the keys set in the field mapping.
+     * @returns The number of notes rewritten
+     */
+    async migrateFrontmatterToFieldMapping(): Promise<number> {
+        const catalog = await this.getCatalog();
+
+        let migratedCount = 0;
+        for (const { files } of catalog) {
+            for (const { file } of files) {
+                if (await this.frontmatterWriter.migrateFrontmatter(file)) {
+                    migratedCount++;
+                }
+            }
+        }
+
+        return migratedCount;
+    }
+
+    /**
+     * Renders the folder template configured for the entity type, below the folder of that entity type
+     * @example getEntityFolderPath("album", album) with "{artist}/{year}" => "Music/Albums/Artist/1997"
+     */
+    getEntityFolderPath(entityType: CatalogEntityType, entity: MusicEntity): string {
+        const folders: Record<CatalogEntityType, { path: string, template: string }> = {
+            artist: { path: this.artistsPath, template: this.settings.artist_folder_template },
+            album: { path: this.albumsPath, template: this.settings.album_folder_template },
+            track: { path: this.tracksPath, template: this.settings.track_folder_template },
+            playlist: { path: this.playlistsPath, template: this.settings.playlist_folder_template }
+        };
+
+        const { path, template } = folders[entityType];
+        const subfolderPath = renderFolderPath(template ?? '', getFileNameTokens(entityType, entity));
+        return normalizePath(subfolderPath ? `${path}/${subfolderPath}` : path);
+    }
+
+    /**
+     * Moves catalog notes into the folders given by the folder templates, updating links to them.
+     * Archived notes are moved into the archive subfolder of their new folder, and folders left empty are deleted.
+     * @returns The number of moved notes
+     */
+    async moveFilesToMatchFolderTemplates(): Promise<number> {
+        const catalog = await this.getCatalog();
+        const catalogFolderPaths = this.catalogFolderPaths;
+
+        let movedCount = 0;
+        for (const { entityType, files } of catalog) {
+            for (const musicFile of files) {
+                const { file } = musicFile;
+                const previousFolder = file.parent;
+                const isArchived = previousFolder?.name === this.ARCHIVE_FOLDER;
+
+                const folderPath = this.getEntityFolderPath(entityType, musicFile);
+                const targetPath = isArchived ? `${folderPath}/${this.ARCHIVE_FOLDER}` : folderPath;
+                if (!previousFolder || previousFolder.path === targetPath) {
+                    continue;
+                }
+
+                await this.moveFile(file, targetPath);
+                console.log(`Moved ${file.basename} from ${previousFolder.path} to ${targetPath}`);
+                movedCount++;
+
+                await this.deleteEmptyFolders(previousFolder, catalogFolderPaths);
+            }
+        }
+
+        return movedCount;
+    }
+
+    /**
+     * Deletes the folder if it is empty, and then each parent left empty, stopping at the given folders.
+     */
+    private async deleteEmptyFolders(folder: TFolder, keptFolderPaths: string[]): Promise<void> {
+        let current: TFolder | null = folder;
+        while (current && current.children.length === 0 && !current.isRoot() && !keptFolderPaths.includes(current.path)) {
+            const parent: TFolder | null = current.parent;
+            await this.app.vault.delete(current);
+            current = parent;
+        }
+    }
+
+    async generateArtistLink(artist: SimplifiedArtist): Promise<string> {
         const index = await this.getArtistIndex();
         const artistFile = index.get(artist.ids);
         return this.generateEntityLink(artistFile, artist.title);
@@ -197,6 +812,18 @@ export class FileManager {
         return this.generateEntityLink(albumFile, album.title);
     }
 
+    async generateTrackLink(track: SimplifiedTrack): Promise<string> {
+        const index = await this.getTrackIndex();
+        const trackFile = index.get(track.ids);
+        return this.generateEntityLink(trackFile, track.title);
+    }
+
+    private async generatePlaylistLink(playlist: SimplifiedPlaylist): Promise<string> {
+        const index = await this.getPlaylistIndex();
+        const playlistFile = index.get(playlist.ids);
+        return this.generateEntityLink(playlistFile, playlist.title);
+    }
+
     private generateEntityLink(
         musicFile: MusicFile<MusicEntity> | undefined,
         displayTitle: string
@@ -205,7 +832,14 @@ export class FileManager {
             return displayTitle;
         }
 
-        const pathParts = musicFile.file.path.split("/");
+        return this.generateFileLink(musicFile.file, displayTitle);
+    }
+
+    /**
+     * Links to a file by its path relative to the catalog, so that links stay unambiguous.
+     */
+    generateFileLink(file: TFile, displayTitle: string): string {
+        const pathParts = file.path.split("/");
         const basePathParts = this.settings.music_catalog_base_path.split("/").filter(s => !!s);
 
         const relativePath = pathParts
@@ -5,7 +5,29 @@ export class MusicFrontmatter {
     album?: string | null = undefined;
     artists?: string[] = undefined;
     cover?: string = undefined;
+    owner?: string = undefined;
+    description?: string = undefined;
+    snapshot_id?: string = undefined;
+    release_date?: string = undefined;
+    track_number?: number = undefined;
+    disc_number?: number = undefined;
+    album_type?: string = undefined;
+    label?: string = undefined;
+    genres?: string[] = undefined;
+    duration_seconds?: number = undefined;
+    explicit?: boolean = undefined;
+    popularity?: number = undefined;
+    copyrights?: string[] = undefined;
     tracks?: string[] = undefined;
+    discography?: string[] = undefined;
+    playlists?: string[] = undefined;
+    play_count?: number = undefined;
+    first_played?: string = undefined;
+    last_played?: string = undefined;
+    listening_minutes?: number = undefined;
+    top_rank_history?: TopRankFrontmatter[] = undefined;
+    removed_at?: string = undefined;
+    tags?: string[] | string = undefined;
     music_ids: MusicIdsFrontmatter = new MusicIdsFrontmatter();
     music_sources: MusicSourcesFrontmatter = new MusicSourcesFrontmatter();
     aliases?: string[] = undefined;
@@ -17,6 +39,7 @@ export class MusicIdsFrontmatter {
     mbid?: string = undefined;
     upc?: string = undefined;
     isrc?: string = undefined;
+    local_id?: string = undefined;
 }
 
 export class MusicSourcesFrontmatter {
@@ -25,3 +48,10 @@ export class MusicSourcesFrontmatter {
     online?: string[] = undefined;
     in_library?: boolean = undefined;
 }
+
+export class TopRankFrontmatter {
+    date = "";
+    short_term?: number = undefined;
+    medium_term?: number = undefined;
+    long_term?: number = undefined;
+}
@@ -3,17 +3,30 @@ import { App, normalizePath, TFile } from 'obsidian';
 import { ObsidianSpotifySettings } from 'src/settings';
 
 
-interface TrackMetadata {
+export interface TrackMetadata {
     artist: string;
+    albumArtist: string;
     album: string;
     track: string;
+    trackNumber?: number;
+    discNumber?: number;
+    year?: string;
+}
+
+export interface LocalTrackFile {
+    file: TFile;
+    metadata: TrackMetadata;
 }
 
 export class LocalTrackManager {
     // Map from lookup key (e.g. "Artist | Album | Track" to file)
-    private trackCache: Map<string, TFile> | undefined = undefined;
+    private trackCache: Map<string, LocalTrackFile> | undefined = undefined;
     private scanInProgress: Promise<void> | undefined;
 
+    // Anything but letters, combining marks, digits and spaces, in any script.
+    // Built at runtime, since Unicode property escapes need a newer compile target.
+    private readonly NON_WORD_CHARACTERS = new RegExp('[^\\p{L}\\p{M}\\p{N}\\s]', 'gu');
+
     constructor(
         private app: App,
         private settings: ObsidianSpotifySettings
@@ -31,10 +44,33 @@ export class LocalTrackManager {
         }
 
         const cache = await this.getTrackCache();
-        return cache.get(lookupKey);
+        return cache.get(lookupKey)?.file;
+    }
+
+    /**
+     * Finds the audio file whose tags match the given artist, album and track title.
+     */
+    async findTrackFileByMetadata(artist: string, album: string, track: string): Promise<TFile | undefined> {
+        const cache = await this.getTrackCache();
+        return cache.get(this.buildLookupKey(artist, album, track))?.file;
+    }
+
+    /**
+     * Generates a vault link to an audio file, e.g. "[[Music/Library/Artist/Song.mp3]]"
+     */
+    getFileLink(file: TFile): string {
+        return `[[${file.path}]]`;
     }
 
-    private async getTrackCache(): Promise<Map<string, TFile>> {
+    /**
+     * Returns every audio file in the local music folder, along with the metadata read from its tags.
+     */
+    async getTrackFiles(): Promise<LocalTrackFile[]> {
+        const cache = await this.getTrackCache();
+        return Array.from(cache.values());
+    }
+
+    private async getTrackCache(): Promise<Map<string, LocalTrackFile>> {
         if (this.trackCache == null) {
             await this.scanLibrary();
         }
@@ -46,13 +82,13 @@ export class LocalTrackManager {
             return this.scanInProgress;
         }
 
+        this.trackCache = new Map();
+
         if (!this.musicFolderPath?.trim()) {
             console.log('No music folder path configured');
             return;
         }
 
-        this.trackCache = new Map();
-
         const normalizedPath = normalizePath(this.musicFolderPath);
         this.scanInProgress = this.scanFolder(normalizedPath);
 
@@ -86,10 +122,18 @@ export class LocalTrackManager {
         return new Promise((resolve) => {
             jsmediatags.read(new Blob([arrayBuffer]), {
                 onSuccess: (tag) => {
+                    const artist = tag.tags.artist || '';
+                    // Album artist is not a jsmediatags shortcut, so read the raw ID3 (TPE2) or MP4 (aART) frame
+                    const albumArtist = tag.tags['TPE2']?.data || tag.tags['aART']?.data || artist;
+
                     resolve({
-                        artist: tag.tags.artist || '',
+                        artist,
+                        albumArtist,
                         album: tag.tags.album || '',
-                        track: tag.tags.title || ''
+                        track: tag.tags.title || '',
+                        trackNumber: this.parsePosition(tag.tags.track),
+                        discNumber: this.parsePosition(tag.tags['TPOS']?.data),
+                        year: tag.tags.year || undefined
                     });
                 },
                 onError: (error) => {
@@ -110,14 +154,25 @@ export class LocalTrackManager {
             return;
         }
 
-        const lookupKey = this.buildLookupKey(metadata.artist, metadata.album, metadata.track);
+        // Untagged files can't be looked up by metadata, so they are keyed by path to keep them distinct
+        const lookupKey = metadata.track
+            ? this.buildLookupKey(metadata.artist, metadata.album, metadata.track)
+            : filePath;
         const file = this.app.vault.getFileByPath(filePath);
 
         if (file) {
-            this.trackCache.set(lookupKey, file);
+            this.trackCache.set(lookupKey, { file, metadata });
         }
     }
 
+    /**
+     * Parses a track or disc position tag, e.g. "3" or "3/12" -> 3
+     */
+    private parsePosition(position: string | number | undefined): number | undefined {
+        const parsed = parseInt(String(position ?? '').split('/')[0], 10);
+        return isNaN(parsed) ? undefined : parsed;
+    }
+
     private parseSpotifyLocalUriToLookupKey(spotifyLocalUri: string): string | undefined {
         if (!spotifyLocalUri.startsWith('spotify:local:')) {
             return undefined;
@@ -141,13 +196,22 @@ export class LocalTrackManager {
         );
     }
 
-    private buildLookupKey(artist: string, album: string, track: string): string {
-        const normalize = (str: string) =>
-            str.toLowerCase()
-                .replace(/[^\w\s]/g, '')
+    /**
+     * Builds a key that is stable across small differences in tag formatting, in any script,
+     * e.g. buildLookupKey("The Artist", "Album!") => "the artist|album", buildLookupKey("Björk") => "bjork".
+     * Parts made only of punctuation are kept as they are, so that they don't all end up as the same empty key.
+     */
+    buildLookupKey(...parts: string[]): string {
+        const normalize = (str: string) => {
+            const normalized = str.normalize('NFKD')
+                .replace(/[\u0300-\u036f]/g, '')
+                .toLowerCase()
+                .replace(this.NON_WORD_CHARACTERS, '')
                 .replace(/\s+/g, ' ')
                 .trim();
+            return normalized || str.trim().toLowerCase();
+        };
 
-        return `${normalize(artist)}|${normalize(album)}|${normalize(track)}`;
+        return parts.map(normalize).join('|');
     }
 }
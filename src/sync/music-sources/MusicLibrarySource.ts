@@ -1,21 +1,65 @@
-import { Album, Artist, MusicEntity, MusicIds, MusicSources, Track } from "../types";
+import { Album, Artist, LibraryEntityType, MusicEntity, MusicIds, MusicSources, Play, Playlist, Track } from "../types";
 
 export interface MusicLibraryQueryOptions {
     recentOnly?: boolean
+    /** With `recentOnly`, fetch everything added after this time, instead of a fixed number of the newest items */
+    addedAfter?: moment.Moment
 }
 
+export type TopItemsTimeRange = 'short_term' | 'medium_term' | 'long_term';
+
 export abstract class MusicLibrarySource {
+    /**
+     * Whether `recentOnly` queries fetch only what changed recently, so that sync checkpoints are worth keeping.
+     */
+    abstract readonly supportsIncrementalSync: boolean;
+
     abstract getSavedArtists(options: MusicLibraryQueryOptions): Promise<Artist[]>;
 
     abstract getSavedAlbums(options: MusicLibraryQueryOptions): Promise<Album[]>;
 
     abstract getSavedTracks(options: MusicLibraryQueryOptions): Promise<Track[]>;
 
+    /**
+     * Fetches the details of a playlist, without its tracks (see `getPlaylistTracks`).
+     */
+    abstract getPlaylist(playlistId: string): Promise<Playlist | undefined>;
+
+    abstract getPlaylistTracks(playlistId: string, options: MusicLibraryQueryOptions): Promise<Track[]>;
+
+    /**
+     * Fetches the most recently played tracks, newest first.
+     * @param after - Only return plays after this time
+     */
+    abstract getRecentlyPlayed(after: moment.Moment | undefined): Promise<Play[]>;
+
+    /**
+     * Fetches the user's most listened-to artists over the time range, highest ranked first.
+     */
+    abstract getTopArtists(timeRange: TopItemsTimeRange): Promise<Artist[]>;
+
+    /**
+     * Fetches the user's most listened-to tracks over the time range, highest ranked first.
+     */
+    abstract getTopTracks(timeRange: TopItemsTimeRange): Promise<Track[]>;
+
+    /**
+     * Saves entities to (or removes them from) the user's library. Artists are followed or unfollowed.
+     * @param ids - Primary IDs of the entities (see `getPrimaryId`)
+     */
+    abstract setLibraryStatus(entityType: LibraryEntityType, ids: string[], inLibrary: boolean): Promise<void>;
+
     abstract getArtistsById(ids: string[]): Promise<Artist[]>;
 
     abstract getAlbumsById(ids: string[]): Promise<Album[]>;
 
     abstract getTracksById(ids: string[]): Promise<Track[]>;
 
+    /**
+     * Fetches the albums, singles and compilations of an artist, without their tracks (see `getAlbumsById`).
+     * @param artistId - Primary ID of the artist (see `getPrimaryId`)
+     */
+    abstract getArtistAlbums(artistId: string): Promise<Album[]>;
+
     abstract getPrimaryId(ids: MusicIds): string | undefined;
 }
@@ -0,0 +1,233 @@
+import { MusicLibraryQueryOptions, MusicLibrarySource, TopItemsTimeRange } from "../MusicLibrarySource";
+import { App, moment } from 'obsidian';
+import { Album, Artist, Track, Play, Playlist, SimplifiedArtist, SimplifiedAlbum, MusicIds, LibraryEntityType } from "src/sync/types";
+import { ObsidianSpotifySettings } from "src/settings";
+import { LocalTrackFile, LocalTrackManager } from "src/sync/localTrackManager";
+
+
+/**
+ * A music library made up of the audio files in the local music folder.
+ * Every audio file is a saved track, and its artists and albums are derived from its tags.
+ */
+export class LocalLibrarySource extends MusicLibrarySource {
+    override readonly supportsIncrementalSync = false;
+
+    private readonly localTrackManager: LocalTrackManager;
+
+    constructor(
+        private app: App,
+        private settings: ObsidianSpotifySettings
+    ) {
+        super();
+        this.localTrackManager = new LocalTrackManager(this.app, this.settings);
+    }
+
+    // Scanning the local folder is cheap compared to a streaming service, so `recentOnly` is ignored
+    // and the whole library is always returned.
+
+    override async getSavedArtists(options: MusicLibraryQueryOptions): Promise<Artist[]> {
+        const trackFiles = await this.localTrackManager.getTrackFiles();
+        const artists = new Map<string, Artist>();
+
+        trackFiles.forEach(trackFile => {
+            const artistNames = [
+                ...this.splitArtists(trackFile.metadata.artist),
+                ...this.splitArtists(trackFile.metadata.albumArtist)
+            ];
+
+            artistNames.forEach(artistName => {
+                const artist = this.toArtist(artistName, trackFile);
+                const existing = artists.get(artist.ids.local_id ?? "");
+                artists.set(artist.ids.local_id ?? "", this.keepEarliestAdded(existing, artist));
+            });
+        });
+
+        return Array.from(artists.values());
+    }
+
+    override async getSavedAlbums(options: MusicLibraryQueryOptions): Promise<Album[]> {
+        const trackFiles = await this.localTrackManager.getTrackFiles();
+        const albumTrackFiles = new Map<string, LocalTrackFile[]>();
+
+        trackFiles
+            .filter(trackFile => !!trackFile.metadata.album)
+            .forEach(trackFile => {
+                const albumId = this.getAlbumId(trackFile);
+                albumTrackFiles.set(albumId, [...albumTrackFiles.get(albumId) ?? [], trackFile]);
+            });
+
+        return Array.from(albumTrackFiles.values())
+            // Singles are stored as standalone tracks, matching how streaming services are synced
+            .filter(files => files.length > 1)
+            .map(files => this.toAlbum(files));
+    }
+
+    override async getSavedTracks(options: MusicLibraryQueryOptions): Promise<Track[]> {
+        const trackFiles = await this.localTrackManager.getTrackFiles();
+        const albums = await this.getSavedAlbums(options);
+        const albumIds = new Set(albums.map(album => album.ids.local_id));
+
+        return trackFiles.map(trackFile => {
+            const isSingle = !albumIds.has(this.getAlbumId(trackFile));
+            return this.toTrack(trackFile, isSingle);
+        });
+    }
+
+    override async getPlaylist(playlistId: string): Promise<Playlist | undefined> {
+        // Local libraries have no playlists
+        return undefined;
+    }
+
+    override async getPlaylistTracks(playlistId: string, options: MusicLibraryQueryOptions): Promise<Track[]> {
+        return [];
+    }
+
+    override async getRecentlyPlayed(after: moment.Moment | undefined): Promise<Play[]> {
+        // Plays of local files are not tracked
+        return [];
+    }
+
+    override async getTopArtists(timeRange: TopItemsTimeRange): Promise<Artist[]> {
+        return [];
+    }
+
+    override async getTopTracks(timeRange: TopItemsTimeRange): Promise<Track[]> {
+        return [];
+    }
+
+    override async setLibraryStatus(entityType: LibraryEntityType, ids: string[], inLibrary: boolean): Promise<void> {
+        // The library is defined by the files in the local music folder, which are never moved or deleted
+        throw new Error('The local library cannot be modified');
+    }
+
+    override async getArtistsById(ids: string[]): Promise<Artist[]> {
+        const artists = await this.getSavedArtists({});
+        return artists.filter(artist => ids.includes(artist.ids.local_id ?? ""));
+    }
+
+    override async getAlbumsById(ids: string[]): Promise<Album[]> {
+        const albums = await this.getSavedAlbums({});
+        return albums.filter(album => ids.includes(album.ids.local_id ?? ""));
+    }
+
+    override async getTracksById(ids: string[]): Promise<Track[]> {
+        const tracks = await this.getSavedTracks({});
+        return tracks.filter(track => ids.includes(track.ids.local_id ?? ""));
+    }
+
+    override async getArtistAlbums(artistId: string): Promise<Album[]> {
+        // Only the albums in the local music folder are known
+        const albums = await this.getSavedAlbums({});
+        return albums.filter(album => album.artists.some(artist => artist.ids.local_id === artistId));
+    }
+
+    override getPrimaryId(ids: MusicIds): string | undefined {
+        return ids.local_id;
+    }
+
+    private toArtist(artistName: string, trackFile: LocalTrackFile): Artist {
+        return {
+            title: artistName,
+            ids: this.getArtistIds(artistName),
+            addedAt: moment(trackFile.file.stat.ctime),
+            sources: {}
+        };
+    }
+
+    private toAlbum(trackFiles: LocalTrackFile[]): Album {
+        const sortedTrackFiles = [...trackFiles].sort((a, b) =>
+            (a.metadata.discNumber ?? 1) - (b.metadata.discNumber ?? 1)
+            || (a.metadata.trackNumber ?? 0) - (b.metadata.trackNumber ?? 0)
+        );
+        const firstTrackFile = sortedTrackFiles[0];
+        const earliestCreated = Math.min(...trackFiles.map(trackFile => trackFile.file.stat.ctime));
+
+        return {
+            ...this.toSimplifiedAlbum(firstTrackFile),
+            tracks: sortedTrackFiles.map(trackFile => ({
+                title: trackFile.metadata.track,
+                ids: this.getTrackIds(trackFile),
+                trackNumber: trackFile.metadata.trackNumber,
+                discNumber: trackFile.metadata.discNumber
+            })),
+            releaseDate: firstTrackFile.metadata.year,
+            addedAt: moment(earliestCreated),
+            sources: {
+                // Folders can't be linked to, so albums link to their first track
+                local: this.localTrackManager.getFileLink(firstTrackFile.file)
+            }
+        };
+    }
+
+    private toTrack(trackFile: LocalTrackFile, isSingle: boolean): Track {
+        const artists: SimplifiedArtist[] = this.splitArtists(trackFile.metadata.artist)
+            .map(artistName => ({
+                title: artistName,
+                ids: this.getArtistIds(artistName)
+            }));
+
+        return {
+            title: trackFile.metadata.track || trackFile.file.basename,
+            ids: this.getTrackIds(trackFile),
+            artists,
+            album: isSingle ? null : this.toSimplifiedAlbum(trackFile),
+            releaseDate: trackFile.metadata.year,
+            trackNumber: trackFile.metadata.trackNumber,
+            discNumber: trackFile.metadata.discNumber,
+            addedAt: moment(trackFile.file.stat.ctime),
+            sources: {
+                local: this.localTrackManager.getFileLink(trackFile.file)
+            }
+        };
+    }
+
+    private toSimplifiedAlbum(trackFile: LocalTrackFile): SimplifiedAlbum {
+        const albumArtists = this.splitArtists(trackFile.metadata.albumArtist);
+
+        return {
+            title: trackFile.metadata.album,
+            artists: albumArtists.map(artistName => ({
+                title: artistName,
+                ids: this.getArtistIds(artistName)
+            })),
+            ids: { local_id: this.getAlbumId(trackFile) }
+        };
+    }
+
+    private getArtistIds(artistName: string): MusicIds {
+        return { local_id: this.localTrackManager.buildLookupKey(artistName) };
+    }
+
+    private getAlbumId(trackFile: LocalTrackFile): string {
+        return this.localTrackManager.buildLookupKey(trackFile.metadata.albumArtist, trackFile.metadata.album);
+    }
+
+    private getTrackIds(trackFile: LocalTrackFile): MusicIds {
+        const { artist, album, track } = trackFile.metadata;
+
+        // Untagged files fall back to their vault path, which is stable until the file is moved
+        const localId = track
+            ? this.localTrackManager.buildLookupKey(artist, album, track)
+            : trackFile.file.path;
+
+        return { local_id: localId };
+    }
+
+    /**
+     * Splits a multi-valued artist tag, e.g. "Artist A; Artist B" => ["Artist A", "Artist B"]
+     */
+    private splitArtists(artistTag: string): string[] {
+        return artistTag
+            .split(';')
+            .flatMap(part => part.split('\u0000')) // ID3v2.4 separates multiple values with null characters
+            .map(artistName => artistName.trim())
+            .filter(artistName => !!artistName);
+    }
+
+    private keepEarliestAdded(existing: Artist | undefined, candidate: Artist): Artist {
+        if (!existing?.addedAt || !candidate.addedAt) {
+            return existing ?? candidate;
+        }
+        return candidate.addedAt.isBefore(existing.addedAt) ? candidate : existing;
+    }
+}
@@ -0,0 +1,121 @@
+import { requestUrl } from 'obsidian';
+import { ObsidianSpotifySettings } from 'src/settings';
+
+export const DEFAULT_MUSICBRAINZ_BASE_URL = 'https://musicbrainz.org/ws/2';
+
+interface MusicBrainzIsrcResponse {
+    recordings?: { id: string }[];
+}
+
+interface MusicBrainzReleaseSearchResponse {
+    releases?: { id: string, score: number }[];
+}
+
+interface MusicBrainzArtistSearchResponse {
+    artists?: { id: string, name: string, score: number }[];
+}
+
+interface MusicBrainzUrlResponse {
+    relations?: { artist?: { id: string } }[];
+}
+
+/**
+ * Looks up MusicBrainz IDs (MBIDs) through the MusicBrainz web service.
+ * Requests are queued so that at most one is sent per second, as required by
+ * https://musicbrainz.org/doc/MusicBrainz_API/Rate_Limiting
+ */
+export class MusicBrainzClient {
+    private readonly MIN_REQUEST_INTERVAL_MS = 1000;
+    private readonly USER_AGENT = 'ObsidianMusicLibrary ( https://github.com/EzraMarks/obsidian-spotify-sync )';
+
+    private requestQueue: Promise<unknown> = Promise.resolve();
+    private lastRequestTime = 0;
+
+    constructor(private settings: ObsidianSpotifySettings) { }
+
+    private get baseUrl(): string {
+        return (this.settings.musicbrainz_base_url || DEFAULT_MUSICBRAINZ_BASE_URL).replace(/\/+$/, '');
+    }
+
+    async findRecordingIdByIsrc(isrc: string): Promise<string | undefined> {
+        const response = await this.request<MusicBrainzIsrcResponse>(`isrc/${encodeURIComponent(isrc)}`, {});
+        return response?.recordings?.[0]?.id;
+    }
+
+    async findReleaseIdByBarcode(barcode: string): Promise<string | undefined> {
+        const response = await this.request<MusicBrainzReleaseSearchResponse>('release', {
+            query: `barcode:${barcode}`
+        });
+        return response?.releases?.find(release => release.score === 100)?.id;
+    }
+
+    /**
+     * Finds an artist through the relation between their MusicBrainz entry and their Spotify page.
+     */
+    async findArtistIdBySpotifyUrl(spotifyUrl: string): Promise<string | undefined> {
+        const response = await this.request<MusicBrainzUrlResponse>('url', {
+            resource: spotifyUrl,
+            inc: 'artist-rels'
+        });
+        return response?.relations?.find(relation => relation.artist)?.artist?.id;
+    }
+
+    /**
+     * Finds an artist by name, but only if exactly one artist is an exact match,
+     * since many artists share a name.
+     */
+    async findArtistIdByName(name: string): Promise<string | undefined> {
+        const response = await this.request<MusicBrainzArtistSearchResponse>('artist', {
+            query: `artist:"${name.replace(/"/g, '\\"')}"`
+        });
+
+        const exactMatches = (response?.artists ?? []).filter(artist =>
+            artist.score === 100 && artist.name.toLowerCase() === name.toLowerCase()
+        );
+        return exactMatches.length === 1 ? exactMatches[0].id : undefined;
+    }
+
+    /**
+     * Sends a request once the rate limit allows it.
+     * @returns The parsed JSON response, or undefined if nothing was found
+     */
+    private async request<T>(path: string, params: Record<string, string>): Promise<T | undefined> {
+        const query = new URLSearchParams({ ...params, fmt: 'json' }).toString();
+        const url = `${this.baseUrl}/${path}?${query}`;
+
+        const response = await this.enqueue(() => requestUrl({
+            url,
+            headers: {
+                'Accept': 'application/json',
+                'User-Agent': this.USER_AGENT
+            },
+            throw: false
+        }));
+
+        if (response.status === 404) {
+            return undefined;
+        }
+
+        if (response.status >= 400) {
+            throw new Error(`MusicBrainz request failed with status ${response.status}: ${url}`);
+        }
+
+        return response.json as T;
+    }
+
+    private enqueue<T>(sendRequest: () => Promise<T>): Promise<T> {
+        const result = this.requestQueue.then(async () => {
+            const waitMs = this.lastRequestTime + this.MIN_REQUEST_INTERVAL_MS - Date.now();
+            if (waitMs > 0) {
+                await sleep(waitMs);
+            }
+
+            this.lastRequestTime = Date.now();
+            return sendRequest();
+        });
+
+        // Keep the queue going even if this request fails
+        this.requestQueue = result.catch(() => undefined);
+        return result;
+    }
+}
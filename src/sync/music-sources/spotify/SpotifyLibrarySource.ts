@@ -1,8 +1,8 @@
-import { MusicLibraryQueryOptions, MusicLibrarySource } from "../MusicLibrarySource";
+import { MusicLibraryQueryOptions, MusicLibrarySource, TopItemsTimeRange } from "../MusicLibrarySource";
 import { SpotifyApi } from '@spotify/web-api-ts-sdk';
 import type * as Spotify from '@spotify/web-api-ts-sdk';
-import { SpotifyUtils } from './SpotifyUtils';
-import { Album, Artist, Track, SimplifiedArtist, SimplifiedTrack, SimplifiedAlbum, MusicSources, MusicIds } from "src/sync/types";
+import { SpotifyUtils, USER_MARKET } from './SpotifyUtils';
+import { Album, Artist, Track, Play, Playlist, SimplifiedArtist, SimplifiedTrack, SimplifiedAlbum, MusicSources, MusicIds, LibraryEntityType } from "src/sync/types";
 import { moment } from 'obsidian';
 import { ObsidianSpotifySettings } from "src/settings";
 
@@ -14,6 +14,8 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
     private readonly TRACKS_BATCH_SIZE = 50;
     private readonly RECENT_SYNC_LIMIT: Spotify.MaxInt<50> = 20;
 
+    override readonly supportsIncrementalSync = true;
+
     private readonly utils: SpotifyUtils;
 
     constructor(
@@ -48,7 +50,7 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
 
     override async getSavedAlbums(options: MusicLibraryQueryOptions): Promise<Album[]> {
         const savedAlbumsAndSingles = options.recentOnly
-            ? await this.getRecentSavedAlbums()
+            ? await this.getRecentSavedAlbums(options.addedAfter)
             : await this.getAllSavedAlbums();
 
         const savedAlbums = savedAlbumsAndSingles.filter(item => !this.utils.isSingle(item.album));
@@ -56,7 +58,14 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
         return savedAlbums.map(item => this.toAlbum(item.album, moment(item.added_at)));
     }
 
-    private async getRecentSavedAlbums(): Promise<Spotify.SavedAlbum[]> {
+    private async getRecentSavedAlbums(addedAfter: moment.Moment | undefined): Promise<Spotify.SavedAlbum[]> {
+        if (addedAfter) {
+            return await this.paginateSpotifyApiUntil(
+                (offset) => this.spotifyApi.currentUser.albums.savedAlbums(this.API_PAGE_SIZE, offset),
+                (item) => moment(item.added_at).isBefore(addedAfter)
+            );
+        }
+
         const response = await this.spotifyApi.currentUser.albums.savedAlbums(this.RECENT_SYNC_LIMIT, 0);
         return response.items;
     }
@@ -69,13 +78,20 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
 
     override async getSavedTracks(options: MusicLibraryQueryOptions): Promise<Track[]> {
         const savedTracks = options.recentOnly
-            ? await this.getRecentSavedTracks()
+            ? await this.getRecentSavedTracks(options.addedAfter)
             : await this.getAllSavedTracks();
 
         return savedTracks.map(item => this.toTrack(item.track, moment(item.added_at)));
     }
 
-    private async getRecentSavedTracks(): Promise<Spotify.SavedTrack[]> {
+    private async getRecentSavedTracks(addedAfter: moment.Moment | undefined): Promise<Spotify.SavedTrack[]> {
+        if (addedAfter) {
+            return await this.paginateSpotifyApiUntil(
+                (offset) => this.spotifyApi.currentUser.tracks.savedTracks(this.API_PAGE_SIZE, offset),
+                (item) => moment(item.added_at).isBefore(addedAfter)
+            );
+        }
+
         const response = await this.spotifyApi.currentUser.tracks.savedTracks(this.RECENT_SYNC_LIMIT, 0);
         return response.items;
     }
@@ -86,17 +102,28 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
         );
     }
 
-    async getPlaylistTracks(playlistId: string, options: MusicLibraryQueryOptions): Promise<Track[]> {
+    override async getPlaylist(playlistId: string): Promise<Playlist | undefined> {
+        const playlist = await this.spotifyApi.playlists.getPlaylist(
+            playlistId, USER_MARKET, 'id,uri,name,description,owner(display_name),images,snapshot_id'
+        );
+
+        return playlist ? this.toPlaylist(playlist) : undefined;
+    }
+
+    override async getPlaylistTracks(playlistId: string, options: MusicLibraryQueryOptions): Promise<Track[]> {
         const playlistTracks = options.recentOnly
             ? await this.getRecentPlaylistTracks(playlistId)
             : await this.getAllPlaylistTracks(playlistId);
 
-        return playlistTracks.map(item => this.toTrack(item.track, moment(item.added_at)));
+        return playlistTracks
+            // Unavailable tracks come back as null, and podcast episodes are not tracks
+            .filter(item => item.track != null && this.utils.isPlaylistedTrack(item))
+            .map(item => this.toTrack(item.track, moment(item.added_at)));
     }
 
     private async getRecentPlaylistTracks(playlistId: string): Promise<Spotify.PlaylistedTrack<Spotify.Track>[]> {
         const response = await this.spotifyApi.playlists.getPlaylistItems(
-            playlistId, 'US', undefined, this.RECENT_SYNC_LIMIT, 0
+            playlistId, USER_MARKET, undefined, this.RECENT_SYNC_LIMIT, 0
         );
         return response.items
     }
@@ -104,11 +131,65 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
     private async getAllPlaylistTracks(playlistId: string): Promise<Spotify.PlaylistedTrack<Spotify.Track>[]> {
         return this.paginateSpotifyApi(
             (offset) => this.spotifyApi.playlists.getPlaylistItems(
-                playlistId, 'US', undefined, this.API_PAGE_SIZE, offset
+                playlistId, USER_MARKET, undefined, this.API_PAGE_SIZE, offset
             )
         );
     }
 
+    override async getRecentlyPlayed(after: moment.Moment | undefined): Promise<Play[]> {
+        // Spotify only keeps the last 50 plays
+        const response = await this.spotifyApi.player.getRecentlyPlayedTracks(
+            this.API_PAGE_SIZE,
+            after ? { type: 'after', timestamp: after.valueOf() } : undefined
+        );
+
+        return response.items
+            .filter(item => item.track != null)
+            .map(item => ({
+                track: this.toTrack(item.track, undefined),
+                playedAt: moment(item.played_at)
+            }));
+    }
+
+    override async getTopArtists(timeRange: TopItemsTimeRange): Promise<Artist[]> {
+        const response = await this.spotifyApi.currentUser.topItems('artists', timeRange, this.API_PAGE_SIZE);
+        return response.items.map(item => this.toArtist(item, undefined));
+    }
+
+    override async getTopTracks(timeRange: TopItemsTimeRange): Promise<Track[]> {
+        const response = await this.spotifyApi.currentUser.topItems('tracks', timeRange, this.API_PAGE_SIZE);
+        return response.items.map(item => this.toTrack(item, undefined));
+    }
+
+    override async setLibraryStatus(entityType: LibraryEntityType, spotifyIds: string[], inLibrary: boolean): Promise<void> {
+        switch (entityType) {
+            case 'artist':
+                await this.batchSpotifyApi(spotifyIds, this.ARTISTS_BATCH_SIZE, async (ids) => {
+                    await (inLibrary
+                        ? this.spotifyApi.currentUser.followArtistsOrUsers(ids, 'artist')
+                        : this.spotifyApi.currentUser.unfollowArtistsOrUsers(ids, 'artist'));
+                    return [];
+                });
+                break;
+            case 'album':
+                await this.batchSpotifyApi(spotifyIds, this.ALBUMS_BATCH_SIZE, async (ids) => {
+                    await (inLibrary
+                        ? this.spotifyApi.currentUser.albums.saveAlbums(ids)
+                        : this.spotifyApi.currentUser.albums.removeSavedAlbums(ids));
+                    return [];
+                });
+                break;
+            case 'track':
+                await this.batchSpotifyApi(spotifyIds, this.TRACKS_BATCH_SIZE, async (ids) => {
+                    await (inLibrary
+                        ? this.spotifyApi.currentUser.tracks.saveTracks(ids)
+                        : this.spotifyApi.currentUser.tracks.removeSavedTracks(ids));
+                    return [];
+                });
+                break;
+        }
+    }
+
     override async getArtistsById(spotifyIds: string[]): Promise<Artist[]> {
         const artists = await this.batchSpotifyApi(
             spotifyIds,
@@ -145,6 +226,23 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
             .map(item => this.toTrack(item, undefined));
     }
 
+    override async getArtistAlbums(artistId: string): Promise<Album[]> {
+        const albums = await this.paginateSpotifyApi(
+            (offset) => this.spotifyApi.artists.albums(artistId, 'album,single,compilation', USER_MARKET, this.API_PAGE_SIZE, offset)
+        );
+
+        // Albums can still be listed more than once, e.g. as clean and explicit editions
+        const uniqueAlbums = new Map<string, Spotify.SimplifiedAlbum>();
+        albums.forEach(item => {
+            const key = [item.name.toLowerCase(), item.release_date, item.album_type].join('|');
+            if (!uniqueAlbums.has(key)) {
+                uniqueAlbums.set(key, item);
+            }
+        });
+
+        return Array.from(uniqueAlbums.values()).map(item => this.toDiscographyAlbum(item));
+    }
+
     override getPrimaryId(ids: MusicIds): string | undefined {
         return ids.spotify_id;
     }
@@ -154,6 +252,8 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
             title: item.name,
             image: this.utils.getBestImageUrl(item.images),
             ids: this.utils.getSpotifyIds(item),
+            genres: item.genres,
+            popularity: item.popularity,
             addedAt,
             sources: {
                 spotify: `https://open.spotify.com/artist/${item.id}`
@@ -168,6 +268,12 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
             ids: this.utils.getSpotifyIds(item),
             artists: item.artists.map(artist => this.toSimplifiedArtist(artist)),
             tracks: item.tracks.items.map(track => this.toSimplifiedTrack(track)),
+            releaseDate: item.release_date,
+            albumType: item.album_type,
+            label: item.label,
+            genres: item.genres,
+            popularity: item.popularity,
+            copyrights: item.copyrights?.map(copyright => copyright.text),
             addedAt,
             sources: {
                 spotify: `https://open.spotify.com/album/${item.id}`
@@ -175,6 +281,24 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
         }
     }
 
+    /**
+     * Albums listed in a discography have no tracks, which are only fetched with the full album.
+     */
+    private toDiscographyAlbum(item: Spotify.SimplifiedAlbum): Album {
+        return {
+            title: item.name,
+            image: this.utils.getBestImageUrl(item.images),
+            ids: this.utils.getSpotifyIds(item),
+            artists: item.artists.map(artist => this.toSimplifiedArtist(artist)),
+            tracks: [],
+            releaseDate: item.release_date,
+            albumType: item.album_type,
+            sources: {
+                spotify: `https://open.spotify.com/album/${item.id}`
+            }
+        };
+    }
+
     private toTrack(item: Spotify.Track, addedAt: moment.Moment | undefined): Track {
         const artists: SimplifiedArtist[] = item.artists.map(spotifyArtist => ({
             title: spotifyArtist.name,
@@ -183,7 +307,7 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
 
         const spotifyAlbum = item.album;
         const album: SimplifiedAlbum | null | undefined =
-            spotifyAlbum.total_tracks === 1
+            spotifyAlbum.total_tracks === 1 || (item.is_local && !spotifyAlbum.name)
                 ? null // album is null for tracks that are singles
                 : {
                     title: spotifyAlbum.name,
@@ -197,9 +321,31 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
             ids: this.utils.getSpotifyIds(item),
             artists,
             album,
+            releaseDate: spotifyAlbum.release_date,
+            trackNumber: item.track_number,
+            discNumber: item.disc_number,
+            durationMs: item.duration_ms,
+            explicit: item.explicit,
+            popularity: item.popularity,
             addedAt,
             sources: {
-                spotify: `https://open.spotify.com/track/${item.id}`
+                // Local files have no Spotify ID, and are linked to the audio file during enrichment instead
+                spotify: item.is_local ? undefined : `https://open.spotify.com/track/${item.id}`
+            }
+        };
+    }
+
+    private toPlaylist(item: Spotify.Playlist): Playlist {
+        return {
+            title: item.name,
+            image: this.utils.getBestImageUrl(item.images),
+            ids: this.utils.getSpotifyIds(item),
+            owner: item.owner?.display_name,
+            description: item.description,
+            snapshotId: item.snapshot_id,
+            tracks: [],
+            sources: {
+                spotify: `https://open.spotify.com/playlist/${item.id}`
             }
         };
     }
@@ -214,7 +360,9 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
     private toSimplifiedTrack(spotifyTrack: Spotify.SimplifiedTrack): SimplifiedTrack {
         return {
             title: spotifyTrack.name,
-            ids: this.utils.getSpotifyIds(spotifyTrack)
+            ids: this.utils.getSpotifyIds(spotifyTrack),
+            trackNumber: spotifyTrack.track_number,
+            discNumber: spotifyTrack.disc_number
         };
     }
 
@@ -232,6 +380,31 @@ export class SpotifyLibrarySource extends MusicLibrarySource {
         return allItems;
     }
 
+    /**
+     * Pages through a collection ordered newest first, stopping at the first item that was already synced.
+     * @returns The items before the first already-synced item
+     */
+    private async paginateSpotifyApiUntil<T>(
+        fetchPage: (offset: number) => Promise<{ items: T[] }>,
+        isAlreadySynced: (item: T) => boolean
+    ): Promise<T[]> {
+        const newItems: T[] = [];
+        let offset = 0;
+        let hasMore = true;
+        while (hasMore) {
+            const response = await fetchPage(offset);
+            const syncedIndex = response.items.findIndex(isAlreadySynced);
+            if (syncedIndex !== -1) {
+                newItems.push(...response.items.slice(0, syncedIndex));
+                break;
+            }
+            newItems.push(...response.items);
+            hasMore = response.items.length === this.API_PAGE_SIZE;
+            offset += this.API_PAGE_SIZE;
+        }
+        return newItems;
+    }
+
     private async batchSpotifyApi<InputT, OutputT>(
         items: InputT[],
         batchSize: number,
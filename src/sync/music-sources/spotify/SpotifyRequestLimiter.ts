@@ -0,0 +1,132 @@
+import { Notice } from 'obsidian';
+import type { RequestImplementation } from '@spotify/web-api-ts-sdk';
+import { ObsidianSpotifySettings } from 'src/settings';
+
+export const DEFAULT_SPOTIFY_API_BASE_URL = 'https://api.spotify.com/v1';
+
+/**
+ * Sends the Spotify SDK's requests (see `SdkOptions.fetch`), keeping within the Web API rate limits:
+ * - At most a few requests are in flight at once
+ * - 429 responses pause all requests for as long as their Retry-After header asks
+ * - 5xx responses and network failures are retried with jittered exponential backoff
+ * See https://developer.spotify.com/documentation/web-api/concepts/rate-limits
+ */
+export class SpotifyRequestLimiter {
+    private readonly MAX_CONCURRENT_REQUESTS = 4;
+    private readonly MAX_RETRIES = 5;
+    private readonly BASE_BACKOFF_MS = 1000;
+    private readonly MAX_BACKOFF_MS = 30000;
+    private readonly DEFAULT_RETRY_AFTER_SECONDS = 5;
+
+    private activeRequests = 0;
+    private waitingRequests: (() => void)[] = [];
+    private pausedUntil = 0;
+
+    constructor(private settings: ObsidianSpotifySettings) { }
+
+    readonly fetch: RequestImplementation = async (input, init) => {
+        const url = this.rewriteBaseUrl(input);
+
+        await this.acquireSlot();
+        try {
+            return await this.fetchWithRetries(url, init);
+        } finally {
+            this.releaseSlot();
+        }
+    };
+
+    private async fetchWithRetries(url: RequestInfo | URL, init: RequestInit | undefined): Promise<Response> {
+        for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
+            await this.waitUntilUnpaused();
+
+            let response: Response;
+            try {
+                response = await fetch(url, init);
+            } catch (error) {
+                console.warn(`Spotify request failed, retrying (attempt ${attempt + 1} of ${this.MAX_RETRIES}):`, error);
+                await sleep(this.getBackoffMs(attempt));
+                continue;
+            }
+
+            if (response.status === 429) {
+                const retryAfterSeconds = parseInt(response.headers.get('Retry-After') ?? '', 10);
+                this.pause((isNaN(retryAfterSeconds) ? this.DEFAULT_RETRY_AFTER_SECONDS : retryAfterSeconds) * 1000);
+                continue;
+            }
+
+            if (response.status >= 500) {
+                console.warn(`Spotify request failed with status ${response.status}, retrying (attempt ${attempt + 1} of ${this.MAX_RETRIES})`);
+                await sleep(this.getBackoffMs(attempt));
+                continue;
+            }
+
+            return response;
+        }
+
+        // Out of retries, so the final response (or error) goes back to the SDK as is
+        await this.waitUntilUnpaused();
+        return await fetch(url, init);
+    }
+
+    /**
+     * Points requests at the configured API URL, e.g. a local fake server for testing.
+     */
+    private rewriteBaseUrl(input: RequestInfo | URL): RequestInfo | URL {
+        const baseUrl = this.settings.spotify_api_base_url?.replace(/\/+$/, '');
+        if (!baseUrl || baseUrl === DEFAULT_SPOTIFY_API_BASE_URL || typeof input !== 'string') {
+            return input;
+        }
+
+        return input.startsWith(DEFAULT_SPOTIFY_API_BASE_URL)
+            ? baseUrl + input.slice(DEFAULT_SPOTIFY_API_BASE_URL.length)
+            : input;
+    }
+
+    private getBackoffMs(attempt: number): number {
+        const backoffMs = Math.min(this.MAX_BACKOFF_MS, this.BASE_BACKOFF_MS * 2 ** attempt);
+        // Full jitter, so that concurrent requests don't all retry at the same moment
+        return Math.random() * backoffMs;
+    }
+
+    private pause(waitMs: number): void {
+        const resumeAt = Date.now() + waitMs;
+        if (resumeAt <= this.pausedUntil) {
+            return;
+        }
+
+        // Only tell the user about new pauses, not every request that runs into the same one
+        if (this.pausedUntil < Date.now()) {
+            new Notice(`Spotify is rate limiting requests, waiting ${Math.ceil(waitMs / 1000)} seconds...`);
+        }
+        console.warn(`Spotify rate limit reached, pausing requests for ${waitMs} ms`);
+
+        this.pausedUntil = resumeAt;
+    }
+
+    private async waitUntilUnpaused(): Promise<void> {
+        let waitMs = this.pausedUntil - Date.now();
+        while (waitMs > 0) {
+            await sleep(waitMs);
+            waitMs = this.pausedUntil - Date.now();
+        }
+    }
+
+    private async acquireSlot(): Promise<void> {
+        if (this.activeRequests < this.MAX_CONCURRENT_REQUESTS) {
+            this.activeRequests++;
+            return;
+        }
+
+        await new Promise<void>(resolve => this.waitingRequests.push(resolve));
+    }
+
+    private releaseSlot(): void {
+        const nextRequest = this.waitingRequests.shift();
+        if (nextRequest) {
+            // Hand the slot straight over to the next waiting request
+            nextRequest();
+        } else {
+            this.activeRequests--;
+        }
+    }
+}
@@ -1,6 +1,13 @@
 import * as Spotify from '@spotify/web-api-ts-sdk';
 import { ObsidianSpotifySettings } from '../../../settings';
 import { MusicIds } from "src/sync/types";
+import { removeNullish } from 'src/utils';
+
+/**
+ * Asks Spotify for the market of the logged in user, so that results are the editions available to them.
+ * Spotify accepts it wherever a market is, but the SDK's `Market` type leaves it out.
+ */
+export const USER_MARKET = 'from_token' as Spotify.Market;
 
 export class SpotifyUtils {
     constructor(private settings: ObsidianSpotifySettings) { }
@@ -14,11 +21,16 @@ export class SpotifyUtils {
         }).url;
     }
 
-    getSpotifyIds(spotifyItem: Spotify.Album | Spotify.SimplifiedTrack | Spotify.SimplifiedArtist): MusicIds {
-        return {
+    getSpotifyIds(spotifyItem: Spotify.Album | Spotify.SimplifiedAlbum | Spotify.SimplifiedTrack | Spotify.SimplifiedArtist | Spotify.Playlist): MusicIds {
+        // Only full track and album objects carry external IDs
+        const externalIds = 'external_ids' in spotifyItem ? spotifyItem.external_ids : undefined;
+
+        return removeNullish({
             spotify_id: spotifyItem.id,
-            spotify_uri: spotifyItem.uri
-        };
+            spotify_uri: spotifyItem.uri,
+            isrc: spotifyItem.type === 'track' ? externalIds?.isrc || undefined : undefined,
+            upc: spotifyItem.type === 'album' ? externalIds?.upc || externalIds?.ean || undefined : undefined
+        });
     }
 
     generateAlbumTracksArray(album: Spotify.Album): string[] {
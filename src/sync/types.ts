@@ -6,16 +6,47 @@ export type MusicFile<T extends MusicEntity> = T & {
     file: TFile;
 }
 
-export interface Artist extends MusicEntity { }
+export interface Artist extends MusicEntity {
+    genres?: string[];
+    /** From 0 to 100, as calculated by the source */
+    popularity?: number;
+}
 
 export interface Album extends MusicEntity {
     artists: SimplifiedArtist[];
     tracks: SimplifiedTrack[];
+    /** As precise as the source knows it, e.g. "1997", "1997-05" or "1997-05-21" */
+    releaseDate?: string;
+    /** e.g. "album", "single" or "compilation" */
+    albumType?: string;
+    label?: string;
+    genres?: string[];
+    /** From 0 to 100, as calculated by the source */
+    popularity?: number;
+    copyrights?: string[];
 }
 
 export interface Track extends MusicEntity {
     artists: SimplifiedArtist[];
     album: SimplifiedAlbum | null | undefined;
+    /** The release date of the album the track is on */
+    releaseDate?: string;
+    trackNumber?: number;
+    discNumber?: number;
+    durationMs?: number;
+    explicit?: boolean;
+    /** From 0 to 100, as calculated by the source */
+    popularity?: number;
+    /** The synced playlists this track appears in */
+    playlists?: SimplifiedPlaylist[];
+}
+
+export interface Playlist extends MusicEntity {
+    owner?: string;
+    description?: string;
+    snapshotId?: string;
+    /** Tracks in playlist order */
+    tracks: SimplifiedTrack[];
 }
 
 export interface MusicEntity {
@@ -40,6 +71,51 @@ export interface SimplifiedAlbum {
 export interface SimplifiedTrack {
     title: string;
     ids: MusicIds;
+    /** The position of the track on its album, if known */
+    trackNumber?: number;
+    discNumber?: number;
+}
+
+export interface SimplifiedPlaylist {
+    title: string;
+    ids: MusicIds;
+}
+
+/**
+ * A single play of a track
+ */
+export interface Play {
+    track: Track;
+    playedAt: moment.Moment;
+}
+
+/**
+ * Listening totals of a track, or of all tracks on an album or by an artist
+ */
+export interface PlayStats {
+    playCount: number;
+    firstPlayed?: moment.Moment;
+    lastPlayed?: moment.Moment;
+    msPlayed: number;
+}
+
+/**
+ * The kinds of entity that can be saved to (or followed in) the library of a music source
+ */
+export type LibraryEntityType = 'artist' | 'album' | 'track';
+
+/**
+ * The kinds of entity that get their own note in the music catalog
+ */
+export type CatalogEntityType = LibraryEntityType | 'playlist';
+
+/**
+ * A pending change to whether an entity is saved in the library of the music source
+ */
+export interface LibraryStatusChange {
+    entityType: LibraryEntityType;
+    file: MusicFile<MusicEntity>;
+    inLibrary: boolean;
 }
 
 export type MusicIds = MusicIdsFrontmatter;
@@ -8,3 +8,10 @@ export function removeNullish<T extends Record<string, any>>(obj: T): Partial<T>
         Object.entries(obj).filter(([_, v]) => v != null)
     ) as Partial<T>;
 }
+
+/**
+ * Checks whether a value is an object that isn't an array, e.g. a nested frontmatter field.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}